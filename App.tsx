@@ -4,13 +4,45 @@ import { Sidebar } from './components/Sidebar';
 import { ChatArea } from './components/ChatArea';
 import { InputBar } from './components/InputBar';
 import { LiveCallOverlay } from './components/LiveCallOverlay';
-import { AppMode, ChatSession, Message, MessageRole, Attachment, AttachmentType, ImageStyle, FastModeStyle } from './types';
-import { generateResponse, generateImage, generateSpeech, generateVideo } from './services/geminiService';
-import { Menu, Zap } from 'lucide-react';
+import { PersonaEditor } from './components/PersonaEditor';
+import { ModelSettings } from './components/ModelSettings';
+import { UsagePanel } from './components/UsagePanel';
+import { TemplateEditor } from './components/TemplateEditor';
+import { TransferPanel } from './components/TransferPanel';
+import { AppMode, ChatSession, Message, MessageRole, Attachment, AttachmentType, ImageStyle, Citation, ContextDigest, ServiceError, Persona, SessionSettings, TokenUsage, ToolStep, ResearchStep, PromptTemplate, ReplyRequest } from './types';
+import { generateResponse, generateImage, generateSpeech, generateVideo, generateSessionTitle, summarizeHistory } from './services/geminiService';
+import { explicitIntent, IntentDecision, routeIntent } from './services/intentRouter';
+import { runResearch } from './services/research';
+import { DEFAULT_PERSONA_ID, findPersona, mergeWithBuiltIns } from './services/personas';
+import { ModelPreferences, setModelPreferences } from './services/providers/models';
+import { RetryNotice } from './services/requestScheduler';
+import { DEFAULT_PRICES, PriceTable } from './services/usage';
+import { toServiceError } from './services/serviceErrors';
+import { loadSessions, saveSessions, setSaveErrorListener } from './services/storage/sessionRepository';
+import { readAudioData, withRequestMedia } from './services/storage/media';
+import { withUniqueIds } from './services/importers';
+import { Menu, Zap, UserCircle2 } from 'lucide-react';
 import { playUISound } from './utils/sound';
+import { DEFAULT_SESSION_SETTINGS } from './utils/sessionSettings';
+import { needsTitle, placeholderTitle } from './utils/sessionTitles';
+import { MediaRequest, SlashAction } from './utils/slashCommands';
+import { isListed, purgeExpiredTrash, SessionOrganization } from './utils/sessionOrganization';
+import { getActivePath, getBranchPositions, getLatestLeaf, getPathBefore } from './utils/messageTree';
 
+// Only the placeholder shown while stored chats load; it is never saved
 const DEFAULT_SESSION_ID = 'default-session';
 
+const blankSession = (settings: SessionSettings = DEFAULT_SESSION_SETTINGS): ChatSession => ({
+  id: Date.now().toString(),
+  title: 'New Conversation',
+  messages: [],
+  lastUpdated: Date.now(),
+  settings
+});
+
+// How often trash past its retention is dropped while the app stays open
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
 // Helper to decode base64 audio data
 const decodeAudioData = async (base64Data: string, ctx: AudioContext) => {
     const binaryString = atob(base64Data);
@@ -34,51 +66,159 @@ const decodeAudioData = async (base64Data: string, ctx: AudioContext) => {
 };
 
 export default function App() {
-  const [currentMode, setCurrentMode] = useState<AppMode>(AppMode.FAST);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isLiveCallActive, setIsLiveCallActive] = useState(false);
-  
-  // Initialize sessions from localStorage or default
-  const [sessions, setSessions] = useState<ChatSession[]>(() => {
+  const [isPersonaEditorOpen, setIsPersonaEditorOpen] = useState(false);
+
+  // Custom personas are stored, built-ins always come from code
+  const [personas, setPersonas] = useState<Persona[]>(() => {
     try {
-      const saved = localStorage.getItem('lynq_sessions');
+      const saved = localStorage.getItem('lynq_personas');
       if (saved) {
-        return JSON.parse(saved);
+        return mergeWithBuiltIns(JSON.parse(saved));
       }
     } catch (e) {
-      console.error("Failed to load sessions", e);
+      console.error("Failed to load personas", e);
     }
-    return [{
-      id: DEFAULT_SESSION_ID,
-      title: 'New Conversation',
-      messages: [],
-      lastUpdated: Date.now()
-    }];
+    return mergeWithBuiltIns([]);
   });
+  const [isModelSettingsOpen, setIsModelSettingsOpen] = useState(false);
 
-  const [currentSessionId, setCurrentSessionId] = useState<string>(() => {
-      if (sessions.length > 0) {
-          return sessions[0].id; 
+  // Pushed into the model registry as soon as they change, the service layer reads them from there
+  const [modelPreferences, setModelPreferencesState] = useState<ModelPreferences>(() => {
+    let preferences: ModelPreferences = { chat: {}, tasks: {}, custom: [] };
+    try {
+      const saved = localStorage.getItem('lynq_model_preferences');
+      if (saved) {
+        preferences = { ...preferences, ...JSON.parse(saved) };
+      }
+    } catch (e) {
+      console.error("Failed to load model preferences", e);
+    }
+    setModelPreferences(preferences);
+    return preferences;
+  });
+  const [isUsagePanelOpen, setIsUsagePanelOpen] = useState(false);
+  // Chat the export panel was opened for; null while it's closed
+  const [transferSessionId, setTransferSessionId] = useState<string | null>(null);
+  const [prices, setPrices] = useState<PriceTable>(() => {
+    try {
+      const saved = localStorage.getItem('lynq_prices');
+      if (saved) {
+        return JSON.parse(saved);
+      }
+    } catch (e) {
+      console.error("Failed to load prices", e);
+    }
+    return { ...DEFAULT_PRICES };
+  });
+  const [isTemplateEditorOpen, setIsTemplateEditorOpen] = useState(false);
+  const [templates, setTemplates] = useState<PromptTemplate[]>(() => {
+    try {
+      const saved = localStorage.getItem('lynq_templates');
+      if (saved) {
+        return JSON.parse(saved);
       }
-      return DEFAULT_SESSION_ID;
+    } catch (e) {
+      console.error("Failed to load templates", e);
+    }
+    return [];
   });
+  const [defaultPersonaId, setDefaultPersonaId] = useState<string>(() => localStorage.getItem('lynq_default_persona') || DEFAULT_PERSONA_ID);
+  
+  // Replaced by the stored chats once IndexedDB has loaded them
+  const [sessions, setSessions] = useState<ChatSession[]>(() => [{ ...blankSession(), id: DEFAULT_SESSION_ID }]);
+  const [isStorageReady, setIsStorageReady] = useState(false);
+  // Off when the stored chats couldn't be read: saving then would overwrite them with this tab's list
+  const [canPersist, setCanPersist] = useState(false);
+  // Set while chats can't be saved, cleared by the next successful save
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  const [currentSessionId, setCurrentSessionId] = useState<string>(DEFAULT_SESSION_ID);
+  // Message opened from search, scrolled to and briefly highlighted
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
   
   const [isGenerating, setIsGenerating] = useState(false);
   const [generationTime, setGenerationTime] = useState(0); 
-  const [selectedImageStyle, setSelectedImageStyle] = useState<ImageStyle>(ImageStyle.DEFAULT);
-  const [fastModeStyle, setFastModeStyle] = useState<FastModeStyle>(FastModeStyle.STANDARD);
+  // Model reply being streamed in; appended to the session once it completes
+  const [streamingMessage, setStreamingMessage] = useState<Message | null>(null);
+  // Set while the scheduler waits to retry a rate-limited or failed request
+  const [retryNotice, setRetryNotice] = useState<(RetryNotice & { until: number }) | null>(null);
+  // Image or video job the router inferred, held until the user confirms or declines it
+  const [pendingMedia, setPendingMedia] = useState<{ sessionId: string; userMessage: Message; history: Message[]; mode: AppMode; route: IntentDecision } | null>(null);
 
   // Audio Context for Playback
   const audioContextRef = useRef<AudioContext | null>(null);
   const activeSourceRef = useRef<AudioBufferSourceNode | null>(null);
 
+  // Aborts the in-flight generation when the user hits Stop
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Sessions whose context digest is currently being rebuilt
+  const summarizingRef = useRef<Set<string>>(new Set());
+  // Sessions waiting on a generated title
+  const titlingRef = useRef<Set<string>>(new Set());
+
   const currentSession = sessions.find(s => s.id === currentSessionId) || sessions[0] || {
-      id: 'temp', title: 'New Chat', messages: [], lastUpdated: Date.now()
+      id: 'temp', title: 'New Chat', messages: [], lastUpdated: Date.now(), settings: DEFAULT_SESSION_SETTINGS
   };
+  const { mode: currentMode, fastModeStyle, imageStyle: selectedImageStyle } = currentSession.settings;
+  const activePersona = findPersona(personas, currentSession.settings.personaId || defaultPersonaId);
+  const activePath = getActivePath(currentSession);
+  const branchPositions = getBranchPositions(currentSession.messages, activePath);
+
+  useEffect(() => {
+    setSaveErrorListener(error => setStorageError(error ? "Chats aren't being saved right now. Keep this tab open or export anything important." : null));
+    loadSessions()
+      .then(stored => {
+        const loaded = purgeExpiredTrash(stored);
+        const listed = loaded.filter(isListed);
+        // Nothing to show: a fresh chat of its own takes the placeholder's place
+        const fresh = listed.length === 0 ? blankSession() : null;
+        setSessions(fresh ? [fresh, ...loaded] : loaded);
+        setCurrentSessionId(fresh ? fresh.id : listed[0].id);
+        setCanPersist(true);
+      })
+      .catch(e => {
+        console.error("Failed to load sessions", e);
+        setStorageError("Saved chats couldn't be loaded. Nothing from this tab is saved, so they stay as they were; reload to try again.");
+      })
+      .finally(() => setIsStorageReady(true));
+    return () => setSaveErrorListener(null);
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(() => setSessions(prev => {
+      const kept = purgeExpiredTrash(prev);
+      return kept.length === prev.length ? prev : kept;
+    }), TRASH_PURGE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Nothing is written until the stored chats are in, or the placeholder chat would replace them
+  useEffect(() => {
+    if (canPersist) saveSessions(sessions);
+  }, [sessions, canPersist]);
+
+  useEffect(() => {
+    localStorage.setItem('lynq_personas', JSON.stringify(personas.filter(p => !p.builtIn)));
+  }, [personas]);
+
+  useEffect(() => {
+    localStorage.setItem('lynq_default_persona', defaultPersonaId);
+  }, [defaultPersonaId]);
+
+  useEffect(() => {
+    localStorage.setItem('lynq_prices', JSON.stringify(prices));
+  }, [prices]);
+
+  useEffect(() => {
+    localStorage.setItem('lynq_templates', JSON.stringify(templates));
+  }, [templates]);
 
   useEffect(() => {
-    localStorage.setItem('lynq_sessions', JSON.stringify(sessions));
-  }, [sessions]);
+    localStorage.setItem('lynq_model_preferences', JSON.stringify(modelPreferences));
+  }, [modelPreferences]);
 
   useEffect(() => {
     return () => {
@@ -93,17 +233,10 @@ export default function App() {
 
   const createNewSession = () => {
     playUISound('click');
-    const newId = Date.now().toString();
-    const newSession: ChatSession = {
-      id: newId,
-      title: 'New Conversation',
-      messages: [],
-      lastUpdated: Date.now()
-    };
+    // A new chat keeps the current mode, everything else starts fresh
+    const newSession = blankSession({ ...DEFAULT_SESSION_SETTINGS, mode: currentMode });
     setSessions(prev => [newSession, ...prev]);
-    setCurrentSessionId(newId);
-    setSelectedImageStyle(ImageStyle.DEFAULT);
-    setFastModeStyle(FastModeStyle.STANDARD);
+    setCurrentSessionId(newSession.id);
     setIsSidebarOpen(false);
     
     if (activeSourceRef.current) {
@@ -112,31 +245,93 @@ export default function App() {
     }
   };
 
-  const deleteSession = (e: React.MouseEvent, id: string) => {
-      e.stopPropagation();
-      playUISound('click');
+  // Hides a chat from the list (trash or archive); the open chat gives way to the next listed
+  // one, or to a fresh chat when nothing is left
+  const shelveSession = (id: string, changes: Partial<ChatSession>) => {
+      const remaining = sessions.filter(s => s.id !== id && isListed(s));
+      const fresh = remaining.length === 0 ? blankSession() : null;
       setSessions(prev => {
-          const filtered = prev.filter(s => s.id !== id);
-          if (filtered.length === 0) {
-              return [{
-                  id: Date.now().toString(),
-                  title: 'New Conversation',
-                  messages: [],
-                  lastUpdated: Date.now()
-              }];
-          }
-          return filtered;
+          const updated = prev.map(s => s.id === id ? { ...s, ...changes } : s);
+          return fresh ? [fresh, ...updated] : updated;
       });
       if (id === currentSessionId) {
-          setCurrentSessionId(prev => {
-               const remaining = sessions.filter(s => s.id !== id);
-               return remaining.length > 0 ? remaining[0].id : DEFAULT_SESSION_ID;
-          });
+          setCurrentSessionId(fresh ? fresh.id : remaining[0].id);
       }
   };
 
-  const playAudio = async (base64Data: string) => {
+  // Moves the chat to the trash, from where it can be restored until it's purged
+  const deleteSession = (e: React.MouseEvent, id: string) => {
+      e.stopPropagation();
+      playUISound('click');
+      shelveSession(id, { deletedAt: Date.now() });
+  };
+
+  const handleUpdateSession = (id: string, changes: SessionOrganization) => {
+      if (changes.archived) {
+          shelveSession(id, changes);
+          return;
+      }
+      setSessions(prev => prev.map(s => s.id === id ? { ...s, ...changes } : s));
+  };
+
+  const handleRestoreSession = (id: string) => {
+      setSessions(prev => prev.map(s => s.id === id ? { ...s, deletedAt: undefined } : s));
+  };
+
+  const handlePurgeSession = (id: string) => {
+      setSessions(prev => prev.filter(s => s.id !== id));
+  };
+
+  const handleEmptyTrash = () => {
+      setSessions(prev => prev.filter(s => !s.deletedAt));
+  };
+
+  const updateSessionSettings = (changes: Partial<SessionSettings>) => {
+    setSessions(prev => prev.map(s => s.id === currentSessionId
+      ? { ...s, settings: { ...s.settings, ...changes } }
+      : s
+    ));
+  };
+
+  const recordBackgroundUsage = (sessionId: string) => (usage: TokenUsage) => setSessions(prev => prev.map(s => s.id === sessionId
+    ? { ...s, backgroundUsage: [...(s.backgroundUsage || []), { ...usage, timestamp: Date.now() }] }
+    : s
+  ));
+
+  // Runs in the background after a reply; a rename while it runs wins
+  const refreshTitle = (session: ChatSession, path: Message[]) => {
+    if (!needsTitle(session, path.length) || titlingRef.current.has(session.id)) return;
+    titlingRef.current.add(session.id);
+
+    generateSessionTitle(path.slice(-6), session.titledAt === undefined ? undefined : session.title, recordBackgroundUsage(session.id))
+      .then(title => {
+        if (!title) return;
+        setSessions(prev => prev.map(s => s.id === session.id && !s.titleLocked ? { ...s, title, titledAt: path.length } : s));
+      })
+      .finally(() => titlingRef.current.delete(session.id));
+  };
+
+  const handleRenameSession = (id: string, title: string) => {
+    setSessions(prev => prev.map(s => s.id === id ? { ...s, title, titleLocked: true } : s));
+  };
+
+  const refreshContextDigest = (sessionId: string, previous: ContextDigest | undefined, overflow: Message[]) => {
+    if (summarizingRef.current.has(sessionId)) return;
+    summarizingRef.current.add(sessionId);
+
+    summarizeHistory(previous, overflow, recordBackgroundUsage(sessionId))
+      .then(digest => {
+        if (!digest) return;
+        setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, contextDigest: digest } : s));
+      })
+      .finally(() => summarizingRef.current.delete(sessionId));
+  };
+
+  // Takes base64 PCM, or the object URL a stored voice-over comes back as
+  const playAudio = async (audioData: string) => {
     try {
+        const base64Data = await readAudioData(audioData);
+        if (!base64Data) return;
         if (!audioContextRef.current) {
             audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({sampleRate: 24000});
         }
@@ -162,10 +357,12 @@ export default function App() {
     }
   };
 
-  const handleSendMessage = async (text: string, attachments: Attachment[]) => {
+  // `media` comes from an /image or /video command and skips the intent router
+  const handleSendMessage = async (text: string, attachments: Attachment[], media?: MediaRequest) => {
     playUISound('send');
     const newMessage: Message = {
       id: Date.now().toString(),
+      parentId: activePath.length > 0 ? activePath[activePath.length - 1].id : null,
       role: MessageRole.USER,
       content: text,
       timestamp: Date.now(),
@@ -176,75 +373,314 @@ export default function App() {
     setSessions(prev => prev.map(s => {
       if (s.id === currentSessionId) {
         const isFirstMessage = s.messages.length === 0;
-        const newTitle = isFirstMessage ? (text.slice(0, 30) + (text.length > 30 ? '...' : '')) : s.title;
+        const newTitle = isFirstMessage && !s.titleLocked ? placeholderTitle(text) : s.title;
         return {
           ...s,
           title: newTitle,
           messages: [...s.messages, newMessage],
+          activeLeafId: newMessage.id,
           lastUpdated: Date.now()
         };
       }
       return s;
     }));
 
+    const hasImage = attachments.some(a => a.type === AttachmentType.IMAGE);
+    const route: IntentDecision | undefined = media && {
+      intent: media.intent === 'image' && hasImage ? 'image_edit' : media.intent,
+      source: 'explicit',
+      imageStyle: media.imageStyle
+    };
+    await generateReply(newMessage, activePath, currentMode, route);
+  };
+
+  const handleCommand = (action: SlashAction) => {
+    switch (action.type) {
+      case 'mode':
+        handleModeChange(action.mode);
+        break;
+      case 'persona':
+        playUISound('click');
+        handleSetSessionPersona(action.personaId);
+        break;
+      case 'open-personas':
+        playUISound('click');
+        setIsPersonaEditorOpen(true);
+        break;
+      case 'open-templates':
+        playUISound('click');
+        setIsTemplateEditorOpen(true);
+        break;
+    }
+  };
+
+  const handleSaveTemplate = (template: PromptTemplate) => {
+    setTemplates(prev => prev.some(t => t.id === template.id)
+      ? prev.map(t => t.id === template.id ? template : t)
+      : [...prev, template]
+    );
+  };
+
+  // Edits create a sibling of the original user message, the old branch stays reachable
+  const handleEditMessage = async (messageId: string, newText: string) => {
+    const original = currentSession.messages.find(m => m.id === messageId);
+    if (!original || isGenerating) return;
+    playUISound('send');
+
+    const edited: Message = {
+      id: Date.now().toString(),
+      parentId: original.parentId ?? null,
+      role: MessageRole.USER,
+      content: newText,
+      timestamp: Date.now(),
+      attachments: original.attachments,
+      modeUsed: currentMode
+    };
+
+    setSessions(prev => prev.map(s => s.id === currentSessionId
+      ? { ...s, messages: [...s.messages, edited], activeLeafId: edited.id, lastUpdated: Date.now() }
+      : s
+    ));
+
+    await generateReply(edited, getPathBefore(activePath, messageId), currentMode);
+  };
+
+  // Regenerating adds another reply under the same user message, optionally in another mode
+  const handleRegenerate = async (messageId: string, mode: AppMode = currentMode) => {
+    const target = currentSession.messages.find(m => m.id === messageId);
+    const userMessage = currentSession.messages.find(m => m.id === target?.parentId);
+    if (!userMessage || isGenerating) return;
+    playUISound('send');
+
+    setSessions(prev => prev.map(s => s.id === currentSessionId ? { ...s, activeLeafId: userMessage.id } : s));
+
+    await generateReply(userMessage, getPathBefore(activePath, userMessage.id), mode);
+  };
+
+  // Newest first, above the existing chats
+  const handleImportSessions = (imported: ChatSession[]) => {
+    setSessions(prev => [...withUniqueIds([...imported].sort((a, b) => b.lastUpdated - a.lastUpdated), prev), ...prev]);
+  };
+
+  // Search result: show the message's branch unless a reply is being written into that chat
+  const handleOpenMessage = (sessionId: string, messageId: string) => {
+    playUISound('click');
+    const session = sessions.find(s => s.id === sessionId);
+    if (!session) return;
+    const isVisible = getActivePath(session).some(m => m.id === messageId);
+    if (!isVisible && !(isGenerating && sessionId === currentSessionId)) {
+      setSessions(prev => prev.map(s => s.id === sessionId
+        ? { ...s, activeLeafId: getLatestLeaf(s.messages, messageId) }
+        : s
+      ));
+    }
+    setCurrentSessionId(sessionId);
+    setFocusedMessageId(messageId);
+    setIsSidebarOpen(false);
+  };
+
+  const handleSwitchBranch = (messageId: string, direction: -1 | 1) => {
+    const position = branchPositions[messageId];
+    if (!position || isGenerating) return;
+    const siblingId = position.siblingIds[position.index + direction];
+    if (!siblingId) return;
+    playUISound('click');
+
+    setSessions(prev => prev.map(s => s.id === currentSessionId
+      ? { ...s, activeLeafId: getLatestLeaf(s.messages, siblingId) }
+      : s
+    ));
+  };
+
+  // `route` skips intent routing, it is passed once the user has answered the media confirmation.
+  // `replay` is the request of a failed reply being retried, used instead of the current settings.
+  const generateReply = async (userMessage: Message, history: Message[], mode: AppMode, route?: IntentDecision, replay?: ReplyRequest) => {
+    const settings = replay?.settings || currentSession.settings;
+    const persona = findPersona(personas, settings.personaId || defaultPersonaId);
+    if (replay?.intent) route = { intent: replay.intent, source: 'explicit', imageStyle: replay.imageStyle };
+    const text = userMessage.content;
+
+    setPendingMedia(null);
     setIsGenerating(true);
     setGenerationTime(0);
     const startTime = Date.now(); 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const signal = abortController.signal;
+    const onRetry = (notice: RetryNotice) => {
+      const until = Date.now() + notice.delayMs;
+      setRetryNotice({ ...notice, until });
+      // Drop the countdown once the retry goes out, unless a newer notice replaced it
+      setTimeout(() => setRetryNotice(current => current?.until === until ? null : current), notice.delayMs);
+    };
     
     const timerInterval = setInterval(() => {
       setGenerationTime(Date.now() - startTime);
     }, 100);
 
-    const apiAttachments = attachments
-      .filter(a => a.base64)
-      .map(a => ({
-        inlineData: {
-          data: a.base64!.split(',')[1],
-          mimeType: a.mimeType || 'application/pdf' // Default to pdf if unknown file, usually text/plain handled
-        }
-      }));
-
-    const lowerText = text.toLowerCase();
-    const isExplicitImageRequest = selectedImageStyle !== ImageStyle.DEFAULT;
-    const isImplicitImageRequest = (lowerText.startsWith('generate image') || lowerText.startsWith('create an image') || lowerText.startsWith('draw a')) && attachments.length === 0;
-    
-    const shouldGenerateImage = isExplicitImageRequest || isImplicitImageRequest;
-    const shouldGenerateVideo = currentMode === AppMode.VIDEO || (lowerText.includes('generate video') || lowerText.includes('create a video'));
-
+    let imageStyle = settings.imageStyle;
+    let shouldGenerateImage = false;
+    let shouldGenerateVideo = false;
     let aiResponseText = '';
-    let aiGroundingUrls: { title: string; uri: string }[] | undefined = undefined;
+    let aiGroundingUrls: { title: string; uri: string; domain?: string }[] | undefined = undefined;
+    let aiCitations: Citation[] | undefined;
     let generatedImageUrl: string | null = null;
     let generatedVideoUrl: string | null = null;
     let audioData: string | null = null;
+    let aiError: ServiceError | undefined;
+    let streamUsage: TokenUsage | undefined;
+    let toolSteps: ToolStep[] | undefined;
+    let thoughts: string | undefined;
+    let researchSteps: ResearchStep[] | undefined;
+    let researchDocument: Attachment | undefined;
+    const usage: TokenUsage[] = [];
+    const aiMessageId = (Date.now() + 1).toString();
 
     try {
+      // Stored messages hold object URLs; the bytes are read for this request only
+      const attachments = (await withRequestMedia(userMessage)).attachments || [];
+      const sourceImages = attachments
+        .filter(a => a.type === AttachmentType.IMAGE && a.base64)
+        .map(a => ({ data: a.base64!.split(',')[1], mimeType: a.mimeType || 'image/png' }));
+
+      const apiAttachments = attachments
+        .filter(a => a.base64)
+        .map(a => ({
+          inlineData: {
+            data: a.base64!.split(',')[1],
+            mimeType: a.mimeType || 'application/pdf' // Default to pdf if unknown file, usually text/plain handled
+          }
+        }));
+
+      if (!route) {
+        const explicit = explicitIntent(mode, settings.imageStyle, sourceImages.length > 0);
+        route = explicit ? { intent: explicit, source: 'explicit' } : await routeIntent(text, sourceImages.length > 0, signal);
+
+        // Inferred image and video jobs are slow and costly, ask first
+        if (route.intent !== 'chat' && route.source !== 'explicit' && !signal.aborted) {
+          setPendingMedia({ sessionId: currentSessionId, userMessage, history, mode, route });
+          setIsGenerating(false);
+          setGenerationTime(0);
+          return;
+        }
+      }
+      if (route.usage) usage.push(route.usage);
+
+      imageStyle = route.imageStyle || settings.imageStyle;
+      shouldGenerateImage = route.intent === 'image' || route.intent === 'image_edit';
+      shouldGenerateVideo = route.intent === 'video';
+      const isImageEdit = route.intent === 'image_edit' && sourceImages.length > 0;
+
       if (shouldGenerateVideo) {
-          const res = await generateVideo(text);
-          if (res.videoUrl) {
-              generatedVideoUrl = res.videoUrl;
+          const res = await generateVideo(text, signal, onRetry);
+          if (res.usage) usage.push(res.usage);
+          if (res.ok) {
+              generatedVideoUrl = res.value;
               aiResponseText = "Here is your generated video.";
           } else {
-              aiResponseText = res.error || "Failed to generate video.";
+              aiError = res.error;
           }
       } else if (shouldGenerateImage) {
-         generatedImageUrl = await generateImage(text, selectedImageStyle);
-         aiResponseText = generatedImageUrl ? `Here is the ${selectedImageStyle !== ImageStyle.DEFAULT ? selectedImageStyle.toLowerCase() : ''} image you requested.` : "Sorry, I couldn't generate that image.";
+         const res = await generateImage(text, imageStyle, signal, onRetry, isImageEdit ? sourceImages : undefined);
+         if (res.usage) usage.push(res.usage);
+         if (res.ok) {
+             generatedImageUrl = res.value;
+             aiResponseText = isImageEdit
+               ? 'Here is the edited image.'
+               : `Here is the ${imageStyle !== ImageStyle.DEFAULT ? imageStyle.toLowerCase() : ''} image you requested.`;
+         } else {
+             aiError = res.error;
+         }
+      } else if (mode === AppMode.RESEARCH) {
+         const stream = runResearch(text, history, persona, settings.modelOverrides?.[mode], signal, onRetry);
+         let researchUsage: TokenUsage[] = [];
+         for await (const update of stream) {
+             setRetryNotice(null);
+             aiResponseText = update.report;
+             aiGroundingUrls = update.sources.length > 0 ? update.sources : undefined;
+             aiCitations = update.citations;
+             aiError = update.error;
+             researchSteps = update.steps;
+             researchDocument = update.document;
+             researchUsage = update.usage;
+             setStreamingMessage({
+                 id: aiMessageId,
+                 role: MessageRole.MODEL,
+                 content: update.report,
+                 parentId: userMessage.id,
+                 timestamp: Date.now(),
+                 modeUsed: mode,
+                 groundingUrls: aiGroundingUrls,
+                 citations: update.citations,
+                 researchSteps: update.steps
+             });
+         }
+         usage.push(...researchUsage);
       } else {
-         const response = await generateResponse(text, currentMode, currentSession.messages, apiAttachments, fastModeStyle);
-         aiResponseText = response.text;
-         aiGroundingUrls = response.groundingUrls;
+         // The digest only applies if this branch still contains the turns it summarizes
+         const digest = history.some(m => m.id === currentSession.contextDigest?.coveredUntilId) ? currentSession.contextDigest : undefined;
+         const requestHistory = await Promise.all(history.map(withRequestMedia));
+         const stream = generateResponse(text, mode, requestHistory, apiAttachments, settings.fastModeStyle, settings.thinkingBudget, persona, settings.modelOverrides?.[mode], { sessions: sessions.filter(s => !s.deletedAt), currentSessionId }, digest, signal, onRetry);
+         let overflow: Message[] | undefined;
+         for await (const update of stream) {
+             setRetryNotice(null);
+             aiResponseText = update.text;
+             aiGroundingUrls = update.groundingUrls;
+             aiCitations = update.citations;
+             overflow = update.overflow;
+             aiError = update.error;
+             streamUsage = update.usage;
+             toolSteps = update.toolSteps;
+             thoughts = update.thoughts;
+             if (!update.text && !update.toolSteps && !update.thoughts) continue;
+             setStreamingMessage({
+                 id: aiMessageId,
+                 role: MessageRole.MODEL,
+                 content: update.text,
+                 parentId: userMessage.id,
+                 timestamp: Date.now(),
+                 modeUsed: mode,
+                 groundingUrls: update.groundingUrls,
+                 citations: update.citations,
+                 toolSteps: update.toolSteps,
+                 thoughts: update.thoughts,
+                 isThinking: !!update.thoughts && !update.text
+             });
+         }
 
-         if (currentMode === AppMode.VOICE) {
-             audioData = await generateSpeech(aiResponseText);
-             if (audioData) {
+         if (streamUsage) usage.push(streamUsage);
+
+         if (overflow) {
+             refreshContextDigest(currentSessionId, digest, overflow);
+         }
+
+         if (mode === AppMode.VOICE && !signal.aborted && !aiError) {
+             // A failed voice-over shouldn't fail the reply, the text is still there
+             const speech = await generateSpeech(aiResponseText, settings.voice, signal, onRetry);
+             if (speech.usage) usage.push(speech.usage);
+             if (speech.ok) {
+                 audioData = speech.value;
                  playAudio(audioData);
              }
          }
       }
     } catch (e) {
-      aiResponseText = "Sorry bhai, kuch technical issue aa gaya.";
+      aiError = toServiceError(e);
     } finally {
       clearInterval(timerInterval);
+      abortControllerRef.current = null;
+      setRetryNotice(null);
+    }
+
+    // Keep whatever text streamed in before the stop, drop half-finished media
+    const isCancelled = signal.aborted;
+    if (isCancelled) {
+      aiError = undefined;
+      generatedImageUrl = null;
+      generatedVideoUrl = null;
+      if (shouldGenerateImage || shouldGenerateVideo) {
+        aiResponseText = '';
+      }
     }
 
     const endTime = Date.now();
@@ -253,18 +689,28 @@ export default function App() {
     const responseAttachments: Attachment[] = [];
     if (generatedImageUrl) responseAttachments.push({ type: AttachmentType.IMAGE, url: generatedImageUrl });
     if (generatedVideoUrl) responseAttachments.push({ type: AttachmentType.VIDEO, url: generatedVideoUrl });
+    if (researchDocument) responseAttachments.push(researchDocument);
 
     const aiMessage: Message = {
-      id: (Date.now() + 1).toString(),
+      id: aiMessageId,
+      parentId: userMessage.id,
       role: MessageRole.MODEL,
       content: aiResponseText,
       timestamp: Date.now(),
       isThinking: false,
-      modeUsed: currentMode,
+      modeUsed: mode,
       groundingUrls: aiGroundingUrls,
+      citations: aiCitations,
       attachments: responseAttachments.length > 0 ? responseAttachments : undefined,
       executionTime: executionTime,
-      audioData: audioData || undefined
+      audioData: audioData || undefined,
+      isCancelled: isCancelled || undefined,
+      error: aiError,
+      request: aiError ? { settings, intent: route?.intent, imageStyle } : undefined,
+      usage: usage.length > 0 ? usage : undefined,
+      toolSteps,
+      thoughts,
+      researchSteps
     };
 
     setSessions(prev => prev.map(s => {
@@ -272,22 +718,66 @@ export default function App() {
           return {
             ...s,
             messages: [...s.messages, aiMessage],
+            activeLeafId: aiMessage.id,
             lastUpdated: Date.now()
           };
         }
         return s;
     }));
+
+    if (!isCancelled && !aiError) {
+      refreshTitle(currentSession, [...history, userMessage, aiMessage]);
+    }
       
+    setStreamingMessage(null);
     setIsGenerating(false);
     setGenerationTime(0);
-    playUISound('receive');
+    playUISound(isCancelled ? 'off' : aiError ? 'error' : 'receive');
+  };
+
+  // Re-runs the request behind a failed reply; the failed attempt is dropped if nothing hangs off it
+  const handleRetry = async (messageId: string) => {
+    const failed = currentSession.messages.find(m => m.id === messageId);
+    const userMessage = currentSession.messages.find(m => m.id === failed?.parentId);
+    if (!failed || !userMessage || isGenerating) return;
+    playUISound('send');
+
+    const hasChildren = currentSession.messages.some(m => m.parentId === messageId);
+    setSessions(prev => prev.map(s => s.id === currentSessionId
+      ? {
+          ...s,
+          messages: hasChildren ? s.messages : s.messages.filter(m => m.id !== messageId),
+          activeLeafId: userMessage.id
+        }
+      : s
+    ));
+
+    await generateReply(userMessage, getPathBefore(activePath, userMessage.id), failed.modeUsed || currentMode, undefined, failed.request);
+  };
+
+  const handleConfirmMedia = async () => {
+    if (!pendingMedia || isGenerating) return;
+    const { userMessage, history, mode, route } = pendingMedia;
+    await generateReply(userMessage, history, mode, route);
+  };
+
+  // Declining answers the message as a normal chat turn
+  const handleDeclineMedia = async () => {
+    if (!pendingMedia || isGenerating) return;
+    const { userMessage, history, mode, route } = pendingMedia;
+    await generateReply(userMessage, history, mode, { ...route, intent: 'chat' });
+  };
+
+  const handleStopGeneration = () => {
+    playUISound('click');
+    abortControllerRef.current?.abort();
   };
 
   const clearHistory = () => {
     playUISound('click');
     setSessions(prev => prev.map(s => {
         if(s.id === currentSessionId) {
-            return { ...s, messages: [] };
+            return { ...s, messages: [], activeLeafId: undefined, contextDigest: undefined };
         }
         return s;
     }));
@@ -297,9 +787,40 @@ export default function App() {
       playAudio(base64Data);
   };
 
+  const handleSavePersona = (persona: Persona) => {
+    setPersonas(prev => prev.some(p => p.id === persona.id)
+      ? prev.map(p => p.id === persona.id ? persona : p)
+      : [...prev, persona]
+    );
+  };
+
+  // Chats that used a deleted persona fall back to the default
+  const handleDeletePersona = (id: string) => {
+    setPersonas(prev => prev.filter(p => p.id !== id || p.builtIn));
+    setSessions(prev => prev.map(s => s.settings.personaId === id ? { ...s, settings: { ...s.settings, personaId: undefined } } : s));
+    if (defaultPersonaId === id) setDefaultPersonaId(DEFAULT_PERSONA_ID);
+  };
+
+  const handleSetSessionPersona = (id?: string) => {
+    updateSessionSettings({ personaId: id });
+  };
+
+  const handleModelPreferencesChange = (preferences: ModelPreferences) => {
+    setModelPreferences(preferences);
+    setModelPreferencesState(preferences);
+  };
+
+  const handleSessionModelChange = (mode: AppMode, modelId?: string) => {
+    updateSessionSettings({ modelOverrides: { ...currentSession.settings.modelOverrides, [mode]: modelId } });
+  };
+
   const handleModeChange = (mode: AppMode) => {
       playUISound('click');
-      setCurrentMode(mode);
+      updateSessionSettings({ mode });
+  }
+
+  if (!isStorageReady) {
+    return <div className="h-screen w-full bg-lynq-bg" />;
   }
 
   return (
@@ -312,7 +833,62 @@ export default function App() {
       </div>
 
       {isLiveCallActive && (
-          <LiveCallOverlay onClose={() => setIsLiveCallActive(false)} />
+          <LiveCallOverlay
+              persona={activePersona}
+              voice={currentSession.settings.voice}
+              onVoiceChange={(voice) => updateSessionSettings({ voice })}
+              onClose={() => setIsLiveCallActive(false)}
+          />
+      )}
+
+      {isUsagePanelOpen && (
+          <UsagePanel
+              sessions={sessions}
+              prices={prices}
+              onPricesChange={setPrices}
+              onClose={() => setIsUsagePanelOpen(false)}
+          />
+      )}
+
+      {transferSessionId && (
+          <TransferPanel
+              sessions={sessions.filter(s => !s.deletedAt)}
+              sessionId={transferSessionId}
+              onImport={handleImportSessions}
+              onClose={() => setTransferSessionId(null)}
+          />
+      )}
+
+      {isModelSettingsOpen && (
+          <ModelSettings
+              preferences={modelPreferences}
+              sessionOverrides={currentSession.settings.modelOverrides}
+              onChange={handleModelPreferencesChange}
+              onSessionOverrideChange={handleSessionModelChange}
+              onClose={() => setIsModelSettingsOpen(false)}
+          />
+      )}
+
+      {isTemplateEditorOpen && (
+          <TemplateEditor
+              templates={templates}
+              onSave={handleSaveTemplate}
+              onDelete={(id) => setTemplates(prev => prev.filter(t => t.id !== id))}
+              onClose={() => setIsTemplateEditorOpen(false)}
+          />
+      )}
+
+      {isPersonaEditorOpen && (
+          <PersonaEditor
+              personas={personas}
+              defaultPersonaId={defaultPersonaId}
+              sessionPersonaId={currentSession.settings.personaId}
+              onSave={handleSavePersona}
+              onDelete={handleDeletePersona}
+              onSetDefault={setDefaultPersonaId}
+              onSetSessionPersona={handleSetSessionPersona}
+              onClose={() => setIsPersonaEditorOpen(false)}
+          />
       )}
 
       {isSidebarOpen && (
@@ -337,6 +913,32 @@ export default function App() {
           }}
           onNewSession={createNewSession}
           onDeleteSession={deleteSession}
+          onRenameSession={handleRenameSession}
+          onOpenMessage={handleOpenMessage}
+          onOpenPersonas={() => {
+            playUISound('click');
+            setIsPersonaEditorOpen(true);
+            setIsSidebarOpen(false);
+          }}
+          onOpenModelSettings={() => {
+            playUISound('click');
+            setIsModelSettingsOpen(true);
+            setIsSidebarOpen(false);
+          }}
+          onOpenUsage={() => {
+            playUISound('click');
+            setIsUsagePanelOpen(true);
+            setIsSidebarOpen(false);
+          }}
+          onUpdateSession={handleUpdateSession}
+          onRestoreSession={handleRestoreSession}
+          onPurgeSession={handlePurgeSession}
+          onEmptyTrash={handleEmptyTrash}
+          onOpenTransfer={(id) => {
+            playUISound('click');
+            setTransferSessionId(id);
+            setIsSidebarOpen(false);
+          }}
           onCloseMobile={() => setIsSidebarOpen(false)}
         />
       </div>
@@ -355,6 +957,17 @@ export default function App() {
                     <div className="w-8 h-8 rounded-xl bg-gradient-to-br from-lynq-accent to-orange-400 flex items-center justify-center text-lynq-dark font-bold text-lg shadow-glow group-hover:scale-105 transition-transform duration-300">L</div>
                     <span className="font-semibold text-lg tracking-tight text-white/90">Lynq</span>
                 </div>
+                <button
+                    onClick={() => {
+                        playUISound('click');
+                        setIsPersonaEditorOpen(true);
+                    }}
+                    className="hidden md:flex items-center gap-1.5 px-2.5 py-1 rounded-full text-[11px] font-medium text-gray-400 bg-white/5 border border-white/5 hover:text-white hover:bg-white/10 transition-colors"
+                    title="Persona"
+                >
+                    <UserCircle2 size={12} />
+                    <span className="max-w-[120px] truncate">{activePersona.name}</span>
+                </button>
             </div>
             
             {/* Mode Toggle */}
@@ -371,6 +984,12 @@ export default function App() {
                 >
                     Smart
                 </button>
+                <button 
+                    onClick={() => handleModeChange(AppMode.RESEARCH)}
+                    className={`px-4 py-1.5 rounded-full text-xs font-medium transition-all duration-300 ease-out whitespace-nowrap ${currentMode === AppMode.RESEARCH ? 'bg-white/10 text-lynq-accent shadow-glow ring-1 ring-white/5' : 'text-gray-400 hover:text-white hover:bg-white/5'}`}
+                >
+                    Research
+                </button>
                 <button 
                     onClick={() => handleModeChange(AppMode.VIDEO)}
                     className={`px-4 py-1.5 rounded-full text-xs font-medium transition-all duration-300 ease-out whitespace-nowrap ${currentMode === AppMode.VIDEO ? 'bg-white/10 text-lynq-accent shadow-glow ring-1 ring-white/5' : 'text-gray-400 hover:text-white hover:bg-white/5'}`}
@@ -391,12 +1010,24 @@ export default function App() {
         </header>
 
         <ChatArea 
-            messages={currentSession.messages} 
+            messages={activePath} 
+            branchPositions={branchPositions}
+            streamingMessage={streamingMessage}
             isGenerating={isGenerating}
             generationTime={generationTime}
+            retryNotice={retryNotice}
             onSendMessage={handleSendMessage}
             onClear={clearHistory}
             onPlayAudio={handlePlayAudio}
+            onEditMessage={handleEditMessage}
+            onRegenerate={handleRegenerate}
+            onRetry={handleRetry}
+            onSwitchBranch={handleSwitchBranch}
+            focusedMessageId={focusedMessageId}
+            onFocusDone={() => setFocusedMessageId(null)}
+            pendingIntent={pendingMedia?.sessionId === currentSessionId ? pendingMedia.route.intent : null}
+            onConfirmMedia={handleConfirmMedia}
+            onDeclineMedia={handleDeclineMedia}
             currentMode={currentMode}
         />
 
@@ -405,19 +1036,31 @@ export default function App() {
                 <InputBar 
                     key={currentSessionId}
                     onSendMessage={handleSendMessage} 
+                    onCommand={handleCommand}
+                    templates={templates}
+                    personas={personas}
+                    onStop={handleStopGeneration}
                     isGenerating={isGenerating}
                     selectedStyle={selectedImageStyle}
-                    onStyleSelect={setSelectedImageStyle}
+                    onStyleSelect={(imageStyle) => updateSessionSettings({ imageStyle })}
                     currentMode={currentMode}
                     fastModeStyle={fastModeStyle}
-                    onFastModeStyleChange={setFastModeStyle}
+                    onFastModeStyleChange={(style) => updateSessionSettings({ fastModeStyle: style })}
+                    thinkingBudget={currentSession.settings.thinkingBudget}
+                    onThinkingBudgetChange={(budget) => updateSessionSettings({ thinkingBudget: budget })}
                 />
                 
-                <div className="mt-3 text-center opacity-40 hover:opacity-100 transition-opacity duration-300">
-                    <p className="text-[10px] text-gray-500 font-medium tracking-wide">
-                        Lynq AI can make mistakes. Verify important info.
-                    </p>
-                </div>
+                {storageError ? (
+                    <div className="mt-3 text-center">
+                        <p className="text-[10px] text-red-300/90 font-medium tracking-wide">{storageError}</p>
+                    </div>
+                ) : (
+                    <div className="mt-3 text-center opacity-40 hover:opacity-100 transition-opacity duration-300">
+                        <p className="text-[10px] text-gray-500 font-medium tracking-wide">
+                            Lynq AI can make mistakes. Verify important info.
+                        </p>
+                    </div>
+                )}
             </div>
         </div>
       </div>
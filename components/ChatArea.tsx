@@ -1,37 +1,72 @@
 
 import React, { useEffect, useRef } from 'react';
-import { Message, Attachment, AppMode } from '../types';
+import { Message, Attachment, AppMode, Intent } from '../types';
 import { MessageBubble } from './MessageBubble';
-import { Sparkles, Clock, Zap, Globe, Video } from 'lucide-react';
+import { Sparkles, Clock, Zap, Globe, Video, RefreshCw } from 'lucide-react';
 import { playUISound } from '../utils/sound';
+import { BranchPosition } from '../utils/messageTree';
+import { RetryNotice } from '../services/requestScheduler';
+import { MediaConfirmation } from './MediaConfirmation';
 
 interface ChatAreaProps {
   messages: Message[];
+  branchPositions?: Record<string, BranchPosition>;
+  streamingMessage?: Message | null;
   isGenerating: boolean;
   generationTime?: number;
+  retryNotice?: (RetryNotice & { until: number }) | null;
   onSendMessage: (text: string, attachments: Attachment[]) => void;
   onClear: () => void;
   onPlayAudio: (base64Data: string) => void;
+  onEditMessage?: (messageId: string, newText: string) => void;
+  onRegenerate?: (messageId: string, mode?: AppMode) => void;
+  onRetry?: (messageId: string) => void;
+  onSwitchBranch?: (messageId: string, direction: -1 | 1) => void;
+  focusedMessageId?: string | null; // Scrolled into view and highlighted until onFocusDone
+  onFocusDone?: () => void;
+  pendingIntent?: Intent | null; // Inferred media job waiting for the user's go-ahead
+  onConfirmMedia?: () => void;
+  onDeclineMedia?: () => void;
   currentMode: AppMode;
 }
 
 export const ChatArea: React.FC<ChatAreaProps> = ({ 
   messages, 
+  branchPositions = {},
+  streamingMessage,
   isGenerating, 
   generationTime = 0,
+  retryNotice,
   onSendMessage,
   onClear,
   onPlayAudio,
+  onEditMessage,
+  onRegenerate,
+  onRetry,
+  onSwitchBranch,
+  focusedMessageId,
+  onFocusDone,
+  pendingIntent,
+  onConfirmMedia,
+  onDeclineMedia,
   currentMode
 }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
+    if (focusedMessageId) return;
     if (scrollRef.current) {
       scrollRef.current.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [messages, isGenerating]);
+  }, [messages, isGenerating, streamingMessage?.content, pendingIntent]);
+
+  useEffect(() => {
+    if (!focusedMessageId) return;
+    document.getElementById(`message-${focusedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => onFocusDone?.(), 2500);
+    return () => clearTimeout(timer);
+  }, [focusedMessageId]);
 
   return (
     <div className="flex-1 flex flex-col h-full relative overflow-hidden">
@@ -41,7 +76,7 @@ export const ChatArea: React.FC<ChatAreaProps> = ({
         ref={containerRef}
         className="flex-1 overflow-y-auto p-4 md:p-8 space-y-6 md:space-y-8 pb-40 scroll-smooth custom-scrollbar"
       >
-        {messages.length === 0 ? (
+        {messages.length === 0 && !streamingMessage ? (
           <div className="min-h-[60vh] flex flex-col items-center justify-center text-center px-4 animate-fade-in">
             <div className="w-24 h-24 rounded-[2rem] bg-gradient-to-br from-lynq-accent to-orange-500 flex items-center justify-center text-lynq-dark mb-8 shadow-glow-lg animate-float">
                <Sparkles size={48} strokeWidth={1.5} />
@@ -79,12 +114,47 @@ export const ChatArea: React.FC<ChatAreaProps> = ({
             </div>
           </div>
         ) : (
-          messages.map((msg) => (
-            <MessageBubble key={msg.id} message={msg} onPlayAudio={onPlayAudio} />
+          // The streamed reply shares its id with the final message, so it isn't remounted on completion
+          (streamingMessage ? [...messages, streamingMessage] : messages).map((msg) => (
+            <MessageBubble 
+              key={msg.id} 
+              message={msg} 
+              onPlayAudio={onPlayAudio} 
+              isStreaming={msg === streamingMessage}
+              isHighlighted={msg.id === focusedMessageId}
+              branch={branchPositions[msg.id]}
+              canModify={!isGenerating}
+              onEdit={onEditMessage && ((newText) => onEditMessage(msg.id, newText))}
+              onRegenerate={onRegenerate && ((mode) => onRegenerate(msg.id, mode))}
+              onRetry={onRetry && (() => onRetry(msg.id))}
+              onSwitchBranch={onSwitchBranch && ((direction) => onSwitchBranch(msg.id, direction))}
+            />
           ))
         )}
         
-        {isGenerating && (
+        {pendingIntent && !isGenerating && onConfirmMedia && onDeclineMedia && (
+          <MediaConfirmation intent={pendingIntent} onConfirm={onConfirmMedia} onDecline={onDeclineMedia} />
+        )}
+
+        {isGenerating && retryNotice && (
+          <div className="flex items-center gap-4 max-w-3xl mx-auto w-full animate-fade-in pl-14 md:pl-16">
+             <div className="flex items-center gap-3 bg-amber-500/5 border border-amber-500/20 px-5 py-2.5 rounded-full backdrop-blur-md relative overflow-hidden">
+               <RefreshCw size={16} className="text-amber-400 animate-[spin_2s_linear_infinite]" />
+               <div className="w-px h-4 bg-white/10 mx-1"></div>
+               <div className="text-[11px] font-mono text-lynq-textMuted flex items-center gap-2">
+                  <span className="font-bold tracking-wider text-amber-400/90">
+                      {retryNotice.reason === 'quota' ? 'RATE LIMITED' : 'CONNECTION HICCUP'}
+                  </span>
+                  <span className="opacity-30">|</span>
+                  {/* generationTime ticks every 100ms, which keeps this countdown fresh */}
+                  <span>retrying in {Math.max(0, Math.ceil((retryNotice.until - Date.now()) / 1000))}s</span>
+                  <span className="opacity-50">({retryNotice.attempt}/{retryNotice.maxAttempts})</span>
+               </div>
+             </div>
+          </div>
+        )}
+
+        {isGenerating && !streamingMessage && !retryNotice && (
           <div className="flex items-center gap-4 max-w-3xl mx-auto w-full animate-fade-in pl-14 md:pl-16">
              <div className="flex items-center gap-3 bg-lynq-surface/60 border border-lynq-border px-5 py-2.5 rounded-full backdrop-blur-md shadow-glow relative overflow-hidden group">
                
@@ -124,6 +194,7 @@ export const ChatArea: React.FC<ChatAreaProps> = ({
                       {currentMode === AppMode.FAST ? "TURBO PROCESSING" :
                        currentMode === AppMode.SMART ? "BROWSING WEB" :
                        currentMode === AppMode.VIDEO ? "RENDERING VIDEO" : 
+                       currentMode === AppMode.RESEARCH ? "PLANNING RESEARCH" : 
                        "THINKING"}
                   </span>
                   
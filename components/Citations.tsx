@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { ExternalLink, Globe } from 'lucide-react';
+import { Message } from '../types';
+import { sourceDomain, uncitedSources } from '../utils/citations';
+
+type Source = NonNullable<Message['groundingUrls']>[number];
+
+interface CitationMarkerProps {
+  number: number;
+  source?: Source;
+}
+
+// Superscript footnote; hovering shows the source it points at
+export const CitationMarker: React.FC<CitationMarkerProps> = ({ number, source }) => {
+  const [isHovered, setIsHovered] = useState(false);
+  if (!source) return <sup className="text-[10px] text-gray-500">[{number}]</sup>;
+
+  return (
+    <span className="relative inline-block" onMouseEnter={() => setIsHovered(true)} onMouseLeave={() => setIsHovered(false)}>
+      <a
+        href={source.uri}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="ml-0.5 inline-flex items-center justify-center min-w-[16px] h-4 px-1 rounded bg-lynq-accent/10 text-[10px] font-medium text-lynq-accent no-underline align-super hover:bg-lynq-accent/25 transition-colors"
+      >
+        {number}
+      </a>
+      {isHovered && (
+        <span className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 w-64 z-30 block rounded-xl bg-[#121418] border border-white/10 shadow-glass px-3 py-2.5 animate-fade-in">
+          <span className="flex items-center gap-1.5 text-[10px] text-gray-500 mb-1">
+            <Globe size={10} />
+            <span className="truncate">{sourceDomain(source)}</span>
+          </span>
+          <span className="block text-xs text-gray-200 leading-snug line-clamp-2">{source.title}</span>
+        </span>
+      )}
+    </span>
+  );
+};
+
+interface SourceListProps {
+  sources: Source[];
+  citations?: Message['citations'];
+}
+
+// Numbered source cards; ones no sentence cites are dimmed and labelled
+export const SourceList: React.FC<SourceListProps> = ({ sources, citations }) => {
+  const uncited = uncitedSources(sources.length, citations);
+
+  return (
+    <div className="flex flex-wrap gap-2 mt-1 ml-1">
+      {sources.map((source, idx) => {
+        const domain = sourceDomain(source);
+        const isUncited = uncited.has(idx);
+        return (
+          <a
+            key={source.uri}
+            href={source.uri}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={isUncited ? 'Consulted, but no sentence in the answer cites it' : source.title}
+            className={`flex items-center gap-2 px-2.5 py-1.5 bg-lynq-surfaceHover/50 border border-white/5 rounded-lg text-[10px] text-lynq-textMuted hover:text-lynq-accent hover:border-lynq-accent/30 hover:shadow-glow transition-all max-w-[240px] ${isUncited ? 'opacity-50' : ''}`}
+          >
+            <span className="font-mono text-lynq-accent/80 shrink-0">{idx + 1}</span>
+            <span className="flex flex-col min-w-0">
+              <span className="flex items-center gap-1 text-gray-500">
+                <span className="truncate">{domain}</span>
+                {isUncited && <span className="shrink-0 px-1 rounded bg-white/5 text-[9px] uppercase tracking-wider">Not cited</span>}
+              </span>
+              {source.title !== domain && <span className="truncate text-gray-300">{source.title}</span>}
+            </span>
+            <ExternalLink size={10} className="shrink-0" />
+          </a>
+        );
+      })}
+    </div>
+  );
+};
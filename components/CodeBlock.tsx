@@ -0,0 +1,96 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Square, Loader2, X } from 'lucide-react';
+import { runCode, sandboxLanguageFor, SandboxResult } from '../services/codeSandbox';
+import { playUISound } from '../utils/sound';
+
+interface CodeBlockProps {
+  language?: string;
+  className?: string;
+  children: React.ReactNode;
+}
+
+// Fenced code with a Run action for JavaScript and Python
+export const CodeBlock: React.FC<CodeBlockProps> = ({ language, className, children }) => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [output, setOutput] = useState<SandboxResult | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const runnable = sandboxLanguageFor(language);
+
+  // A run outlives nothing: leaving the chat or deleting the message stops its worker
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleRun = async () => {
+    if (!runnable) return;
+    playUISound('click');
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setOutput({ language: runnable, stdout: '', stderr: '', durationMs: 0 });
+
+    const result = await runCode(runnable, String(children).replace(/\n$/, ''), {
+      signal: controller.signal,
+      onOutput: (stream, text) => setOutput(prev => prev && { ...prev, [stream]: prev[stream] + text })
+    });
+    setOutput(result);
+    setIsRunning(false);
+    abortRef.current = null;
+  };
+
+  const handleStop = () => {
+    playUISound('click');
+    abortRef.current?.abort();
+  };
+
+  const hasOutput = output && (output.stdout || output.stderr || output.result !== undefined || output.error);
+
+  return (
+    <div className="relative my-4 rounded-lg overflow-hidden bg-black/40 border border-white/10 shadow-inner">
+      <div className="flex items-center justify-between px-3 py-1.5 bg-white/5 border-b border-white/5">
+        <span className="text-xs text-gray-500 font-mono tracking-wide uppercase">{language || 'code'}</span>
+        {runnable && (
+          isRunning ? (
+            <button onClick={handleStop} className="flex items-center gap-1.5 text-[11px] text-gray-400 hover:text-red-400 transition-colors">
+              <Square size={11} />
+              <span>Stop</span>
+            </button>
+          ) : (
+            <button onClick={handleRun} className="flex items-center gap-1.5 text-[11px] text-gray-400 hover:text-lynq-accent transition-colors">
+              <Play size={11} />
+              <span>Run</span>
+            </button>
+          )
+        )}
+      </div>
+      <div className="p-3 overflow-x-auto custom-scrollbar">
+        <code className={`!bg-transparent text-sm font-mono ${className || ''}`}>
+          {children}
+        </code>
+      </div>
+
+      {output && (isRunning || hasOutput) && (
+        <div className="border-t border-white/5 bg-black/30">
+          <div className="flex items-center justify-between px-3 py-1 text-[10px] uppercase tracking-wider text-gray-600">
+            <span className="flex items-center gap-1.5">
+              {isRunning && <Loader2 size={10} className="animate-spin" />}
+              {isRunning ? 'Running…' : 'Output'}
+            </span>
+            <div className="flex items-center gap-2">
+              {!isRunning && <span className="font-mono normal-case">{output.durationMs}ms</span>}
+              {!isRunning && (
+                <button onClick={() => { playUISound('click'); setOutput(null); }} className="text-gray-600 hover:text-gray-300 transition-colors">
+                  <X size={11} />
+                </button>
+              )}
+            </div>
+          </div>
+          <pre className="px-3 pb-3 text-xs font-mono whitespace-pre-wrap break-words max-h-72 overflow-y-auto custom-scrollbar">
+            {output.stdout && <span className="text-gray-300">{output.stdout}</span>}
+            {output.stderr && <span className="text-amber-300/90">{output.stderr}</span>}
+            {output.result !== undefined && <span className="text-lynq-accent/90">{`⇒ ${output.result}\n`}</span>}
+            {output.error && <span className="text-red-300">{output.error}</span>}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React, { useEffect, useRef } from 'react';
+import { Slash, FileText } from 'lucide-react';
+import { CommandSuggestion } from '../utils/slashCommands';
+
+interface CommandMenuProps {
+  suggestions: CommandSuggestion[];
+  activeIndex: number;
+  onSelect: (suggestion: CommandSuggestion) => void;
+  onHover: (index: number) => void;
+}
+
+// Autocomplete for slash commands, templates and their arguments; driven by the input's keyboard handler
+export const CommandMenu: React.FC<CommandMenuProps> = ({ suggestions, activeIndex, onSelect, onHover }) => {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const active = listRef.current?.children[activeIndex] as HTMLElement | undefined;
+    active?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  return (
+    <div className="absolute bottom-full mb-3 left-0 right-0 bg-[#121418] border border-white/10 rounded-2xl shadow-glass overflow-hidden z-50 animate-slide-up origin-bottom flex flex-col max-h-72 backdrop-blur-2xl">
+      <div className="flex items-center justify-between px-3 py-2 text-[10px] font-bold text-gray-500 uppercase tracking-wider border-b border-white/5">
+        <span>Commands</span>
+        <span className="font-normal normal-case tracking-normal text-gray-600">↑↓ to move · Tab to complete · Esc to close</span>
+      </div>
+      <div ref={listRef} className="overflow-y-auto p-1.5 scrollbar-thin">
+        {suggestions.map((suggestion, i) => (
+          <button
+            key={suggestion.key}
+            // Keep focus in the textarea
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onSelect(suggestion)}
+            onMouseEnter={() => onHover(i)}
+            className={`w-full text-left px-3 py-2 rounded-xl text-sm transition-colors flex items-center gap-2.5 ${
+              i === activeIndex ? 'bg-white/10 text-white' : 'text-gray-400'
+            }`}
+          >
+            {suggestion.isTemplate
+              ? <FileText size={13} className="text-lynq-accent/80 shrink-0" />
+              : <Slash size={13} className="text-gray-600 shrink-0" />
+            }
+            <span className="font-mono text-xs text-lynq-accent shrink-0">{suggestion.label}</span>
+            {suggestion.hint && <span className="font-mono text-[11px] text-gray-600 shrink-0">{suggestion.hint}</span>}
+            {suggestion.description && <span className="text-xs text-gray-500 truncate">{suggestion.description}</span>}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
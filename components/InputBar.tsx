@@ -1,33 +1,53 @@
 
 import React, { useState, useRef, ChangeEvent, useEffect } from 'react';
-import { Send, Paperclip, X, Palette, Zap, Image as ImageIcon, Video as VideoIcon, FileText } from 'lucide-react';
-import { Attachment, AttachmentType, ImageStyle, AppMode, FastModeStyle } from '../types';
+import { Send, Square, Paperclip, X, Palette, Zap, Brain, Image as ImageIcon, Video as VideoIcon, FileText } from 'lucide-react';
+import { Attachment, AttachmentType, ImageStyle, AppMode, FastModeStyle, ThinkingBudget, Persona, PromptTemplate } from '../types';
 import { playUISound } from '../utils/sound';
+import { CommandSuggestion, MediaRequest, SlashAction, commandSuggestions, findPlaceholders, resolveSlashCommand } from '../utils/slashCommands';
+import { CommandMenu } from './CommandMenu';
 
 interface InputBarProps {
-  onSendMessage: (text: string, attachments: Attachment[]) => void;
+  onSendMessage: (text: string, attachments: Attachment[], media?: MediaRequest) => void;
+  onCommand: (action: SlashAction) => void; // Commands that don't send a message
+  templates: PromptTemplate[];
+  personas: Persona[];
+  onStop: () => void;
   isGenerating: boolean;
   selectedStyle: ImageStyle;
   onStyleSelect: (style: ImageStyle) => void;
   currentMode: AppMode;
   fastModeStyle: FastModeStyle;
   onFastModeStyleChange: (style: FastModeStyle) => void;
+  thinkingBudget: ThinkingBudget;
+  onThinkingBudgetChange: (budget: ThinkingBudget) => void;
 }
 
 export const InputBar: React.FC<InputBarProps> = ({ 
   onSendMessage, 
+  onStop,
   isGenerating, 
   selectedStyle, 
   onStyleSelect,
   currentMode,
   fastModeStyle,
-  onFastModeStyleChange
+  onFastModeStyleChange,
+  thinkingBudget,
+  onThinkingBudgetChange,
+  onCommand,
+  templates,
+  personas
 }) => {
   const [inputText, setInputText] = useState('');
   const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [showStyleMenu, setShowStyleMenu] = useState(false);
   const [showFastMenu, setShowFastMenu] = useState(false);
+  const [showThinkingMenu, setShowThinkingMenu] = useState(false);
   const [isFocused, setIsFocused] = useState(false);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+  const [isMenuDismissed, setIsMenuDismissed] = useState(false);
+  const [commandError, setCommandError] = useState<string | null>(null);
+  // {{variables}} an inserted template brought in that are still unfilled; typed braces never count
+  const [templatePlaceholders, setTemplatePlaceholders] = useState<string[]>([]);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -40,23 +60,119 @@ export const InputBar: React.FC<InputBarProps> = ({
     }
   }, [inputText]);
 
+  const suggestions = commandSuggestions(inputText, templates, personas);
+  const isMenuOpen = isFocused && !isMenuDismissed && suggestions.length > 0;
+  const highlighted = suggestions[Math.min(activeSuggestion, suggestions.length - 1)];
+
+  const changeInput = (text: string) => {
+    setInputText(text);
+    setTemplatePlaceholders(prev => prev.filter(name => findPlaceholders(text).some(p => p.name === name)));
+    setActiveSuggestion(0);
+    setIsMenuDismissed(false);
+    setCommandError(null);
+  };
+
+  const selectRange = (start: number, end: number) => {
+    // After React has put the new text in the textarea
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(start, end);
+    });
+  };
+
+  // Templates land with their first {{variable}} selected, everything else with the caret at the end
+  const acceptSuggestion = (suggestion: CommandSuggestion) => {
+    playUISound('click');
+    changeInput(suggestion.completion);
+    const placeholders = suggestion.isTemplate ? findPlaceholders(suggestion.completion) : [];
+    setTemplatePlaceholders(placeholders.map(p => p.name));
+    const first = placeholders[0];
+    if (first) {
+      selectRange(first.start, first.end);
+    } else {
+      selectRange(suggestion.completion.length, suggestion.completion.length);
+    }
+  };
+
+  const unfilledTemplatePlaceholders = () => findPlaceholders(inputText).filter(p => templatePlaceholders.includes(p.name));
+
+  // Tab walks through the template's remaining {{variables}}
+  const selectNextPlaceholder = (): boolean => {
+    const placeholders = unfilledTemplatePlaceholders();
+    if (placeholders.length === 0) return false;
+    const caret = textareaRef.current?.selectionEnd ?? 0;
+    const next = placeholders.find(p => p.start >= caret) || placeholders[0];
+    selectRange(next.start, next.end);
+    return true;
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (isMenuOpen) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveSuggestion((Math.min(activeSuggestion, suggestions.length - 1) + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setIsMenuDismissed(true);
+        return;
+      }
+      // Enter on a command that's already typed out runs it instead
+      if ((e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey)) && highlighted.completion !== inputText) {
+        e.preventDefault();
+        acceptSuggestion(highlighted);
+        return;
+      }
+    }
+    if (e.key === 'Tab' && !e.shiftKey && selectNextPlaceholder()) {
+      e.preventDefault();
+      return;
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
     }
   };
 
-  const handleSend = () => {
-    if ((!inputText.trim() && attachments.length === 0) || isGenerating) return;
-    onSendMessage(inputText, attachments);
-    setInputText('');
+  const clearInput = () => {
+    changeInput('');
     setAttachments([]);
     if (textareaRef.current) {
         textareaRef.current.style.height = 'auto';
     }
   };
 
+  const handleSend = () => {
+    if ((!inputText.trim() && attachments.length === 0) || isGenerating) return;
+
+    const unfilled = unfilledTemplatePlaceholders()[0];
+    if (unfilled) {
+      setCommandError(`Fill in {{${unfilled.name}}} first.`);
+      selectRange(unfilled.start, unfilled.end);
+      return;
+    }
+
+    const action = resolveSlashCommand(inputText, personas);
+    if (action?.type === 'error') {
+      playUISound('error');
+      setCommandError(action.message);
+      return;
+    }
+    if (!action) {
+      onSendMessage(inputText, attachments);
+    } else if (action.type === 'send') {
+      onSendMessage(action.text, attachments, action.media);
+    } else {
+      // Attachments stay for the message that follows
+      onCommand(action);
+      changeInput('');
+      return;
+    }
+    clearInput();
+  };
+
   const handleFileSelect = async (e: ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       playUISound('click');
@@ -92,6 +208,9 @@ export const InputBar: React.FC<InputBarProps> = ({
 
   const removeAttachment = (index: number) => {
     playUISound('click');
+    // Never sent, so no message will hold on to the preview
+    const url = attachments[index]?.url;
+    if (url?.startsWith('blob:')) URL.revokeObjectURL(url);
     setAttachments(prev => prev.filter((_, i) => i !== index));
   };
 
@@ -106,6 +225,15 @@ export const InputBar: React.FC<InputBarProps> = ({
       `}
     >
       
+      {isMenuOpen && (
+        <CommandMenu
+          suggestions={suggestions}
+          activeIndex={Math.min(activeSuggestion, suggestions.length - 1)}
+          onSelect={acceptSuggestion}
+          onHover={setActiveSuggestion}
+        />
+      )}
+
       {/* Attachments Preview */}
       {attachments.length > 0 && (
         <div className="flex gap-3 p-4 border-b border-white/5 overflow-x-auto animate-fade-in scrollbar-hide">
@@ -133,6 +261,10 @@ export const InputBar: React.FC<InputBarProps> = ({
         </div>
       )}
 
+      {commandError && (
+        <div className="px-4 pt-3 text-[11px] text-red-300/90 animate-fade-in">{commandError}</div>
+      )}
+
       <div className="flex items-end gap-2 p-3">
         {/* Attachment Button */}
         <button 
@@ -156,11 +288,11 @@ export const InputBar: React.FC<InputBarProps> = ({
         <textarea
           ref={textareaRef}
           value={inputText}
-          onChange={(e) => setInputText(e.target.value)}
+          onChange={(e) => changeInput(e.target.value)}
           onKeyDown={handleKeyDown}
           onFocus={() => setIsFocused(true)}
           onBlur={() => setIsFocused(false)}
-          placeholder={currentMode === AppMode.CREATIVE ? "Describe image..." : currentMode === AppMode.VIDEO ? "Describe the video you want..." : "Ask Lynq or attach a file..."}
+          placeholder={currentMode === AppMode.CREATIVE ? "Describe image..." : currentMode === AppMode.VIDEO ? "Describe the video you want..." : currentMode === AppMode.RESEARCH ? "What should I research?" : "Ask Lynq, or type / for commands..."}
           className="flex-1 bg-transparent border-none outline-none resize-none py-2.5 text-gray-200 placeholder-gray-500 max-h-[120px] overflow-y-auto leading-relaxed scrollbar-thin font-light text-base"
           rows={1}
         />
@@ -177,6 +309,7 @@ export const InputBar: React.FC<InputBarProps> = ({
                             playUISound('click');
                             setShowFastMenu(!showFastMenu);
                             setShowStyleMenu(false);
+                            setShowThinkingMenu(false);
                         }}
                         className={`p-2.5 rounded-xl transition-all duration-300 flex items-center gap-1 ${
                             fastModeStyle !== FastModeStyle.STANDARD 
@@ -216,6 +349,55 @@ export const InputBar: React.FC<InputBarProps> = ({
                 </div>
             )}
 
+            {/* Thinking Budget Selector */}
+            {(currentMode === AppMode.SMART || currentMode === AppMode.CREATIVE) && (
+                <div className="relative">
+                    <button 
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            playUISound('click');
+                            setShowThinkingMenu(!showThinkingMenu);
+                            setShowStyleMenu(false);
+                            setShowFastMenu(false);
+                        }}
+                        className={`p-2.5 rounded-xl transition-all duration-300 flex items-center gap-1 ${
+                            thinkingBudget !== ThinkingBudget.AUTO 
+                            ? 'text-lynq-accent bg-lynq-accent/10 shadow-glow' 
+                            : 'text-gray-400 hover:text-white hover:bg-white/5'
+                        }`}
+                        title="Thinking Budget"
+                    >
+                        <Brain size={20} />
+                    </button>
+                    
+                    {showThinkingMenu && (
+                        <div className="absolute bottom-full mb-3 left-0 w-52 bg-[#121418] border border-white/10 rounded-2xl shadow-glass overflow-hidden z-50 animate-slide-up origin-bottom-left flex flex-col p-1.5 backdrop-blur-2xl">
+                            <div className="px-3 py-2 text-[10px] font-bold text-gray-500 uppercase tracking-wider border-b border-white/5 mb-1">
+                                Thinking Budget
+                            </div>
+                            {Object.values(ThinkingBudget).map((budget) => (
+                                <button
+                                    key={budget}
+                                    onClick={() => {
+                                        playUISound('click');
+                                        onThinkingBudgetChange(budget);
+                                        setShowThinkingMenu(false);
+                                    }}
+                                    className={`w-full text-left px-3 py-2.5 rounded-xl text-sm transition-all duration-200 flex items-center justify-between group ${
+                                        thinkingBudget === budget
+                                        ? 'bg-lynq-accent text-lynq-dark font-medium shadow-md'
+                                        : 'text-gray-400 hover:bg-white/5 hover:text-white'
+                                    }`}
+                                >
+                                    <span>{budget}</span>
+                                    {thinkingBudget === budget && <Brain size={14} />}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
             {/* Image Style Selector */}
             <div className="relative">
                 <button 
@@ -224,6 +406,7 @@ export const InputBar: React.FC<InputBarProps> = ({
                         playUISound('click');
                         setShowStyleMenu(!showStyleMenu);
                         setShowFastMenu(false);
+                        setShowThinkingMenu(false);
                     }}
                     className={`p-2.5 rounded-xl transition-all duration-300 ${
                         selectedStyle !== ImageStyle.DEFAULT 
@@ -264,29 +447,41 @@ export const InputBar: React.FC<InputBarProps> = ({
                 )}
             </div>
 
-            {/* Send Button */}
-            <button 
-                onClick={handleSend}
-                disabled={(!inputText.trim() && attachments.length === 0) || isGenerating}
-                onMouseEnter={() => !((!inputText.trim() && attachments.length === 0) || isGenerating) && playUISound('hover')}
-                className={`p-2.5 rounded-xl transition-all duration-300 flex items-center justify-center transform ${
-                    (!inputText.trim() && attachments.length === 0) || isGenerating
-                    ? 'bg-white/5 text-gray-600 cursor-not-allowed'
-                    : 'bg-lynq-accent text-lynq-dark hover:bg-lynq-accentHover shadow-glow hover:scale-105 active:scale-95'
-                }`}
-            >
-                <Send size={20} className={isGenerating ? "animate-pulse" : ""} />
-            </button>
+            {/* Send / Stop Button */}
+            {isGenerating ? (
+                <button 
+                    onClick={onStop}
+                    onMouseEnter={() => playUISound('hover')}
+                    className="p-2.5 rounded-xl transition-all duration-300 flex items-center justify-center transform bg-red-500/15 text-red-400 border border-red-500/20 hover:bg-red-500/25 hover:scale-105 active:scale-95"
+                    title="Stop generating"
+                >
+                    <Square size={20} className="fill-current" />
+                </button>
+            ) : (
+                <button 
+                    onClick={handleSend}
+                    disabled={!inputText.trim() && attachments.length === 0}
+                    onMouseEnter={() => !(!inputText.trim() && attachments.length === 0) && playUISound('hover')}
+                    className={`p-2.5 rounded-xl transition-all duration-300 flex items-center justify-center transform ${
+                        !inputText.trim() && attachments.length === 0
+                        ? 'bg-white/5 text-gray-600 cursor-not-allowed'
+                        : 'bg-lynq-accent text-lynq-dark hover:bg-lynq-accentHover shadow-glow hover:scale-105 active:scale-95'
+                    }`}
+                >
+                    <Send size={20} />
+                </button>
+            )}
         </div>
       </div>
       
       {/* Click outside closer overlay */}
-      {(showStyleMenu || showFastMenu) && (
+      {(showStyleMenu || showFastMenu || showThinkingMenu) && (
           <div 
             className="fixed inset-0 z-0" 
             onClick={() => {
                 setShowStyleMenu(false);
                 setShowFastMenu(false);
+                setShowThinkingMenu(false);
             }} 
           />
       )}
@@ -1,11 +1,17 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { X, Mic, MicOff, PhoneOff, Settings2, Video, VideoOff, SwitchCamera, ChevronDown, RefreshCw } from 'lucide-react';
-import { GoogleGenAI, LiveServerMessage, Modality, Blob as GenAIBlob } from "@google/genai";
-import { LiveVoice } from '../types';
-import { VOICE_SYSTEM_INSTRUCTION } from '../services/geminiService';
+import { LiveVoice, Persona } from '../types';
+import { buildLiveInstruction } from '../services/personas';
+import { getProvider } from '../services/providers/registry';
+import { taskModelFor } from '../services/providers/models';
+import { TASK_ROUTES } from '../services/providers/routes';
+import { InlineData, LiveSession } from '../services/providers/types';
 import { playUISound } from '../utils/sound';
 
 interface LiveCallOverlayProps {
+  persona: Persona;
+  voice: LiveVoice;
+  onVoiceChange: (voice: LiveVoice) => void;
   onClose: () => void;
 }
 
@@ -17,13 +23,13 @@ const VOICE_DESCRIPTIONS: Record<string, string> = {
   [LiveVoice.Zephyr]: "Soft & Empathetic"
 };
 
-export const LiveCallOverlay: React.FC<LiveCallOverlayProps> = ({ onClose }) => {
+export const LiveCallOverlay: React.FC<LiveCallOverlayProps> = ({ persona, voice, onVoiceChange, onClose }) => {
   const [status, setStatus] = useState<'connecting' | 'connected' | 'error'>('connecting');
   const [errorMessage, setErrorMessage] = useState<string>('');
   const [isMicOn, setIsMicOn] = useState(true);
   const [isVideoOn, setIsVideoOn] = useState(false);
   const [cameraFacingMode, setCameraFacingMode] = useState<'user' | 'environment'>('user');
-  const [selectedVoice, setSelectedVoice] = useState<LiveVoice>(LiveVoice.Puck);
+  const [selectedVoice, setSelectedVoice] = useState<LiveVoice>(voice);
   const [audioLevel, setAudioLevel] = useState(0); 
   const [showVoiceSelector, setShowVoiceSelector] = useState(false);
 
@@ -47,7 +53,7 @@ export const LiveCallOverlay: React.FC<LiveCallOverlayProps> = ({ onClose }) =>
   const videoStreamRef = useRef<MediaStream | null>(null);
 
   // Connection Management
-  const currentSessionPromiseRef = useRef<Promise<any> | null>(null);
+  const currentSessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
   const activeRef = useRef(true);
 
   // Helper: Base64 Encode
@@ -72,7 +78,7 @@ export const LiveCallOverlay: React.FC<LiveCallOverlayProps> = ({ onClose }) =>
   };
 
   // Helper: Create PCM Blob
-  const createPcmBlob = (data: Float32Array): GenAIBlob => {
+  const createPcmBlob = (data: Float32Array): InlineData => {
     const l = data.length;
     const int16 = new Int16Array(l);
     for (let i = 0; i < l; i++) {
@@ -197,73 +203,62 @@ export const LiveCallOverlay: React.FC<LiveCallOverlayProps> = ({ onClose }) =>
           const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
           streamRef.current = stream;
 
-          // 4. Initialize Gemini Live Client
-          const apiKey = process.env.API_KEY || '';
-          if (!apiKey) throw new Error("API Key Missing");
-
-          const ai = new GoogleGenAI({ apiKey });
-
-          const sessionPromise = ai.live.connect({
-              model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-              config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: { prebuiltVoiceConfig: { voiceName: selectedVoice } }
-                },
-                systemInstruction: VOICE_SYSTEM_INSTRUCTION
-              },
+          // 4. Open the live session through the configured provider
+          const provider = getProvider(TASK_ROUTES.live.provider);
+          if (!provider.connectLive) throw new Error(`${provider.label} does not support live sessions`);
+
+          const sessionPromise = provider.connectLive({
+              model: taskModelFor('live'),
+              voice: selectedVoice,
+              systemInstruction: buildLiveInstruction(persona),
               callbacks: {
-                  onopen: () => {
+                  onOpen: () => {
                       console.log("Live Session Open");
                       if (activeRef.current) {
                           setStatus('connected');
                           playUISound('on');
                       }
                   },
-                  onmessage: async (message: LiveServerMessage) => {
-                      if (!activeRef.current) return;
+                  onAudio: async (base64Audio: string) => {
+                      if (!activeRef.current || !outputAudioContextRef.current) return;
 
                       // Handle Audio Output
-                      const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-                      if (base64Audio && outputAudioContextRef.current) {
-                          try {
-                            const ctx = outputAudioContextRef.current;
-                            nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-                            
-                            const audioBuffer = await decodeAudioData(
-                                b64Decode(base64Audio),
-                                ctx,
-                                24000,
-                                1
-                            );
-                            
-                            const source = ctx.createBufferSource();
-                            source.buffer = audioBuffer;
-                            source.connect(ctx.destination);
-                            
-                            source.start(nextStartTimeRef.current);
-                            nextStartTimeRef.current += audioBuffer.duration;
-                            
-                            sourcesRef.current.add(source);
-                            source.onended = () => sourcesRef.current.delete(source);
-
-                          } catch (e) {
-                              console.error("Audio Decode Error", e);
-                          }
+                      try {
+                        const ctx = outputAudioContextRef.current;
+                        nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
+                        
+                        const audioBuffer = await decodeAudioData(
+                            b64Decode(base64Audio),
+                            ctx,
+                            24000,
+                            1
+                        );
+                        
+                        const source = ctx.createBufferSource();
+                        source.buffer = audioBuffer;
+                        source.connect(ctx.destination);
+                        
+                        source.start(nextStartTimeRef.current);
+                        nextStartTimeRef.current += audioBuffer.duration;
+                        
+                        sourcesRef.current.add(source);
+                        source.onended = () => sourcesRef.current.delete(source);
+
+                      } catch (e) {
+                          console.error("Audio Decode Error", e);
                       }
-
-                      // Handle Interruption
-                      if (message.serverContent?.interrupted) {
-                          sourcesRef.current.forEach(s => {
-                              try { s.stop(); } catch(e){}
-                          });
-                          sourcesRef.current.clear();
-                          if (outputAudioContextRef.current) {
-                            nextStartTimeRef.current = outputAudioContextRef.current.currentTime;
-                          }
+                  },
+                  onInterrupted: () => {
+                      if (!activeRef.current) return;
+                      sourcesRef.current.forEach(s => {
+                          try { s.stop(); } catch(e){}
+                      });
+                      sourcesRef.current.clear();
+                      if (outputAudioContextRef.current) {
+                        nextStartTimeRef.current = outputAudioContextRef.current.currentTime;
                       }
                   },
-                  onclose: () => {
+                  onClose: () => {
                       console.log("Live Session Closed");
                       if (activeRef.current && status !== 'error') {
                           // Only reconnect if not explicitly closed by error
@@ -271,7 +266,7 @@ export const LiveCallOverlay: React.FC<LiveCallOverlayProps> = ({ onClose }) =>
                           // setStatus('error');
                       }
                   },
-                  onerror: (e) => {
+                  onError: (e) => {
                       console.error("Live Session Error", e);
                       if (activeRef.current) {
                           setStatus('error');
@@ -314,7 +309,7 @@ export const LiveCallOverlay: React.FC<LiveCallOverlayProps> = ({ onClose }) =>
               
               sessionPromise.then(session => {
                   try {
-                      session.sendRealtimeInput({ media: pcmBlob });
+                      session.sendMedia(pcmBlob);
                   } catch (e) {
                       // Session might be closed
                   }
@@ -413,7 +408,7 @@ export const LiveCallOverlay: React.FC<LiveCallOverlayProps> = ({ onClose }) =>
               
               currentSessionPromiseRef.current.then(session => {
                   try {
-                      session.sendRealtimeInput({ media: { mimeType: 'image/jpeg', data: base64 } });
+                      session.sendMedia({ mimeType: 'image/jpeg', data: base64 });
                   } catch (e) { }
               }).catch(() => {});
           }
@@ -483,6 +478,7 @@ export const LiveCallOverlay: React.FC<LiveCallOverlayProps> = ({ onClose }) =>
                     onClick={() => {
                         playUISound('click');
                         setSelectedVoice(voice as LiveVoice);
+                        onVoiceChange(voice as LiveVoice);
                         setShowVoiceSelector(false);
                     }}
                     className={`w-full text-left px-4 py-3 text-sm transition-colors hover:bg-white/5 flex flex-col gap-0.5 ${selectedVoice === voice ? 'text-lynq-accent font-semibold bg-lynq-accent/5' : 'text-gray-300'}`}
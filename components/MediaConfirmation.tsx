@@ -0,0 +1,64 @@
+import React from 'react';
+import { Image as ImageIcon, Video, Wand2, MessageSquare } from 'lucide-react';
+import { Intent } from '../types';
+import { playUISound } from '../utils/sound';
+
+interface MediaConfirmationProps {
+  intent: Intent;
+  onConfirm: () => void;
+  onDecline: () => void;
+}
+
+const COPY: Partial<Record<Intent, { title: string; detail: string; action: string; icon: React.ReactNode }>> = {
+  image: {
+    title: 'Generate an image?',
+    detail: 'This looks like an image request. Images take a few seconds and cost more than a text reply.',
+    action: 'Generate Image',
+    icon: <ImageIcon size={16} className="text-lynq-accent" />
+  },
+  image_edit: {
+    title: 'Edit the attached image?',
+    detail: 'This looks like an edit to the image you attached. A new version will be generated.',
+    action: 'Edit Image',
+    icon: <Wand2 size={16} className="text-lynq-accent" />
+  },
+  video: {
+    title: 'Generate a video?',
+    detail: 'This looks like a video request. Videos take a minute or two and are the most expensive thing LYNQ can make.',
+    action: 'Generate Video',
+    icon: <Video size={16} className="text-purple-400" />
+  }
+};
+
+// Asks before launching an image or video job the router inferred from the wording
+export const MediaConfirmation: React.FC<MediaConfirmationProps> = ({ intent, onConfirm, onDecline }) => {
+  const copy = COPY[intent];
+  if (!copy) return null;
+
+  return (
+    <div className="max-w-3xl mx-auto w-full animate-fade-in pl-14 md:pl-16">
+      <div className="rounded-2xl bg-lynq-surface/60 border border-lynq-border backdrop-blur-md px-5 py-4">
+        <div className="flex items-center gap-2 mb-1">
+          {copy.icon}
+          <p className="text-sm font-medium text-white">{copy.title}</p>
+        </div>
+        <p className="text-xs text-lynq-textMuted mb-4">{copy.detail}</p>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => { playUISound('click'); onConfirm(); }}
+            className="px-3 py-1.5 rounded-lg text-xs font-medium bg-lynq-accent text-lynq-dark hover:bg-lynq-accentHover transition-colors"
+          >
+            {copy.action}
+          </button>
+          <button
+            onClick={() => { playUISound('click'); onDecline(); }}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs text-gray-400 hover:text-white hover:bg-white/5 border border-white/10 transition-colors"
+          >
+            <MessageSquare size={12} />
+            <span>Just Reply</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
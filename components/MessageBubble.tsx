@@ -1,18 +1,65 @@
 
 import React, { useState } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { Message, MessageRole, AttachmentType } from '../types';
-import { User, Sparkles, Copy, ExternalLink, Play, Check, FileText } from 'lucide-react';
+import { Message, MessageRole, AttachmentType, AppMode, ServiceErrorKind } from '../types';
+import { User, Sparkles, Copy, Play, Check, FileText, Pencil, RefreshCw, ChevronLeft, ChevronRight, ChevronDown, AlertTriangle, Download } from 'lucide-react';
 import { playUISound } from '../utils/sound';
+import { BranchPosition } from '../utils/messageTree';
+import { formatTokens } from '../services/usage';
+import { ToolSteps } from './ToolSteps';
+import { ReasoningSummary } from './ReasoningSummary';
+import { ResearchProgress } from './ResearchProgress';
+import { CodeBlock } from './CodeBlock';
+import { CitationMarker, SourceList } from './Citations';
+import { insertCitationMarkers } from '../utils/citations';
+
+const ERROR_TITLES: Record<ServiceErrorKind, string> = {
+  [ServiceErrorKind.QUOTA]: 'Limit Reached',
+  [ServiceErrorKind.AUTH]: 'API Key Problem',
+  [ServiceErrorKind.SAFETY]: 'Blocked by Safety Filters',
+  [ServiceErrorKind.NETWORK]: 'Network Problem',
+  [ServiceErrorKind.INVALID_INPUT]: 'Invalid Input',
+  [ServiceErrorKind.CANCELLED]: 'Stopped',
+  [ServiceErrorKind.UNKNOWN]: 'Something Went Wrong'
+};
+
+// Modes offered when regenerating a reply
+const REGENERATE_MODES: { mode: AppMode; label: string }[] = [
+  { mode: AppMode.FAST, label: 'Fast' },
+  { mode: AppMode.SMART, label: 'Smart' },
+  { mode: AppMode.CREATIVE, label: 'Creative' }
+];
 
 interface MessageBubbleProps {
   message: Message;
   onPlayAudio?: (base64Data: string) => void;
+  isStreaming?: boolean;
+  isHighlighted?: boolean; // Opened from search
+  branch?: BranchPosition;
+  canModify?: boolean;
+  onEdit?: (newText: string) => void;
+  onRegenerate?: (mode?: AppMode) => void;
+  onRetry?: () => void;
+  onSwitchBranch?: (direction: -1 | 1) => void;
 }
 
-export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onPlayAudio }) => {
+export const MessageBubble: React.FC<MessageBubbleProps> = ({ 
+  message, 
+  onPlayAudio, 
+  isStreaming = false,
+  isHighlighted = false,
+  branch,
+  canModify = true,
+  onEdit,
+  onRegenerate,
+  onRetry,
+  onSwitchBranch
+}) => {
   const isUser = message.role === MessageRole.USER;
   const [copied, setCopied] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState(message.content);
+  const [showRegenerateMenu, setShowRegenerateMenu] = useState(false);
 
   const handleCopy = () => {
     playUISound('click');
@@ -21,6 +68,23 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onPlayAud
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const startEditing = () => {
+    playUISound('click');
+    setEditText(message.content);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!editText.trim() || !onEdit) return;
+    setIsEditing(false);
+    onEdit(editText);
+  };
+
+  const handleRegenerate = (mode?: AppMode) => {
+    setShowRegenerateMenu(false);
+    onRegenerate?.(mode);
+  };
+
   const handlePlay = () => {
       playUISound('click');
       if (message.audioData && onPlayAudio) {
@@ -29,7 +93,10 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onPlayAud
   }
 
   return (
-    <div className={`flex w-full mb-6 animate-slide-up ${isUser ? 'justify-end' : 'justify-start'}`}>
+    <div
+      id={`message-${message.id}`}
+      className={`flex w-full mb-6 animate-slide-up rounded-2xl transition-shadow duration-700 ${isUser ? 'justify-end' : 'justify-start'} ${isHighlighted ? 'ring-1 ring-lynq-accent/40 shadow-glow' : ''}`}
+    >
       <div className={`flex max-w-[90%] md:max-w-[80%] gap-3 md:gap-4 ${isUser ? 'flex-row-reverse' : 'flex-row'}`}>
         
         {/* Avatar */}
@@ -67,8 +134,8 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onPlayAud
                       );
                   }
                   if (att.type === AttachmentType.DOCUMENT) {
-                       return (
-                           <div key={idx} className="flex items-center gap-3 p-3 bg-white/5 border border-white/10 rounded-xl max-w-[220px]">
+                       const card = (
+                           <>
                                <div className="w-10 h-10 rounded-lg bg-lynq-surface flex items-center justify-center text-lynq-accent">
                                    <FileText size={20} />
                                </div>
@@ -76,6 +143,27 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onPlayAud
                                    <p className="text-xs font-medium text-white truncate">{att.name || 'Document'}</p>
                                    <p className="text-[10px] text-gray-500">{att.mimeType || 'File'}</p>
                                </div>
+                           </>
+                       );
+                       // Generated documents (research reports) can be saved
+                       if (!isUser) {
+                           return (
+                               <a
+                                   key={idx}
+                                   href={att.url}
+                                   download={att.name || 'document'}
+                                   onClick={() => playUISound('click')}
+                                   title="Download"
+                                   className="flex items-center gap-3 p-3 bg-white/5 border border-white/10 rounded-xl max-w-[260px] hover:border-lynq-accent/30 hover:bg-white/10 transition-colors group/doc"
+                               >
+                                   {card}
+                                   <Download size={14} className="shrink-0 text-gray-500 group-hover/doc:text-lynq-accent transition-colors" />
+                               </a>
+                           );
+                       }
+                       return (
+                           <div key={idx} className="flex items-center gap-3 p-3 bg-white/5 border border-white/10 rounded-xl max-w-[220px]">
+                               {card}
                            </div>
                        );
                   }
@@ -90,7 +178,9 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onPlayAud
               relative px-4 py-3 md:px-6 md:py-4 rounded-2xl shadow-sm text-[15px] leading-relaxed overflow-hidden group
               ${isUser 
                 ? 'bg-white/10 text-white rounded-tr-sm backdrop-blur-md border border-white/5' 
-                : 'bg-lynq-surface/90 text-gray-100 rounded-tl-sm border border-lynq-border shadow-glass backdrop-blur-md'
+                : message.error
+                  ? 'bg-red-500/5 text-gray-100 rounded-tl-sm border border-red-500/20 shadow-glass backdrop-blur-md'
+                  : 'bg-lynq-surface/90 text-gray-100 rounded-tl-sm border border-lynq-border shadow-glass backdrop-blur-md'
               }
             `}
           >
@@ -105,24 +195,65 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onPlayAud
                  </button>
             )}
 
+            {!isUser && message.thoughts && (
+                <ReasoningSummary thoughts={message.thoughts} isThinking={isStreaming && message.isThinking} />
+            )}
+
+            {!isUser && message.researchSteps && (
+                <ResearchProgress steps={message.researchSteps} isStreaming={isStreaming} />
+            )}
+
+            {!isUser && message.toolSteps && (
+                <ToolSteps steps={message.toolSteps} isStreaming={isStreaming && !message.content && !message.isThinking} />
+            )}
+
+            {isEditing ? (
+                <div className="flex flex-col gap-2 min-w-[240px] md:min-w-[360px]">
+                    <textarea
+                        value={editText}
+                        onChange={(e) => setEditText(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter' && !e.shiftKey) {
+                                e.preventDefault();
+                                submitEdit();
+                            } else if (e.key === 'Escape') {
+                                setIsEditing(false);
+                            }
+                        }}
+                        autoFocus
+                        rows={3}
+                        className="w-full bg-black/30 border border-white/10 focus:border-lynq-accent/40 rounded-xl p-3 text-sm text-gray-100 outline-none resize-y font-light"
+                    />
+                    <div className="flex justify-end gap-2">
+                        <button 
+                            onClick={() => { playUISound('click'); setIsEditing(false); }}
+                            className="px-3 py-1.5 rounded-lg text-xs text-gray-400 hover:text-white hover:bg-white/5 transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button 
+                            onClick={submitEdit}
+                            disabled={!editText.trim()}
+                            className="px-3 py-1.5 rounded-lg text-xs font-medium bg-lynq-accent text-lynq-dark hover:bg-lynq-accentHover transition-colors disabled:opacity-40"
+                        >
+                            Save & Submit
+                        </button>
+                    </div>
+                </div>
+            ) : (
             <div className="markdown-content break-words font-light">
               <ReactMarkdown 
                  components={{
-                    a: ({node, ...props}) => <a {...props} className="text-lynq-accent hover:underline decoration-lynq-accent/50 underline-offset-2" target="_blank" rel="noopener noreferrer" />,
+                    a: ({node, href, ...props}) => {
+                        const cite = /^#cite-(\d+)$/.exec(href || '');
+                        if (cite) return <CitationMarker number={Number(cite[1])} source={message.groundingUrls?.[Number(cite[1]) - 1]} />;
+                        return <a href={href} {...props} className="text-lynq-accent hover:underline decoration-lynq-accent/50 underline-offset-2" target="_blank" rel="noopener noreferrer" />;
+                    },
                     code: ({node, className, children, ...props}) => {
                         const match = /language-(\w+)/.exec(className || '')
                         const isInline = !match && !String(children).includes('\n');
                         return !isInline ? (
-                            <div className="relative my-4 rounded-lg overflow-hidden bg-black/40 border border-white/10 shadow-inner">
-                                <div className="flex items-center justify-between px-3 py-1.5 bg-white/5 border-b border-white/5">
-                                    <span className="text-xs text-gray-500 font-mono tracking-wide uppercase">{match?.[1] || 'code'}</span>
-                                </div>
-                                <div className="p-3 overflow-x-auto custom-scrollbar">
-                                    <code className={`!bg-transparent text-sm font-mono ${className}`} {...props}>
-                                        {children}
-                                    </code>
-                                </div>
-                            </div>
+                            <CodeBlock language={match?.[1]} className={className}>{children}</CodeBlock>
                         ) : (
                             <code className="bg-white/10 px-1.5 py-0.5 rounded text-sm font-mono text-lynq-accent/90 border border-white/5" {...props}>
                                 {children}
@@ -137,12 +268,42 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onPlayAud
                     blockquote: ({node, ...props}) => <blockquote className="border-l-2 border-lynq-accent/50 pl-4 py-1 my-2 bg-lynq-accent/5 italic text-gray-400" {...props} />,
                  }}
               >
-                {message.content}
+                {isUser ? message.content : insertCitationMarkers(message.content, message.citations)}
               </ReactMarkdown>
+              {message.isCancelled && !message.content && (
+                  <p className="italic text-gray-500">Generation stopped.</p>
+              )}
+              {isStreaming && (
+                  <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-lynq-accent/80 rounded-sm animate-pulse" />
+              )}
             </div>
+            )}
 
-            {/* Actions Footer (Copy, etc) */}
-            {!isUser && (
+            {/* Error State */}
+            {message.error && (
+                <div className={`flex items-start gap-3 ${message.content ? 'mt-3 pt-3 border-t border-red-500/10' : ''}`}>
+                    <AlertTriangle size={16} className="text-red-400 shrink-0 mt-0.5" />
+                    <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-red-300">{ERROR_TITLES[message.error.kind]}</p>
+                        <p className="text-xs text-gray-400 mt-0.5">{message.error.message}</p>
+                        {message.error.detail && (
+                            <p className="text-[10px] text-gray-600 font-mono mt-1 truncate" title={message.error.detail}>{message.error.detail}</p>
+                        )}
+                    </div>
+                    {onRetry && canModify && message.error.retryable && (
+                        <button 
+                            onClick={onRetry}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-red-500/10 text-red-300 border border-red-500/20 hover:bg-red-500/20 transition-colors shrink-0"
+                        >
+                            <RefreshCw size={12} />
+                            <span>Retry</span>
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {/* Actions Footer (Copy, Regenerate, etc) */}
+            {!isUser && !isStreaming && (
                 <div className="flex items-center gap-3 mt-3 pt-3 border-t border-white/5 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
                     <button 
                         onClick={handleCopy}
@@ -151,30 +312,85 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onPlayAud
                         {copied ? <Check size={12} className="text-green-400" /> : <Copy size={12} />}
                         <span>{copied ? 'Copied' : 'Copy'}</span>
                     </button>
+
+                    {onRegenerate && canModify && (
+                        <div className="relative flex items-center">
+                            <button 
+                                onClick={() => { playUISound('click'); handleRegenerate(); }}
+                                className="text-gray-500 hover:text-white transition-colors flex items-center gap-1.5 text-xs hover:bg-white/5 px-2 py-1 rounded-l"
+                            >
+                                <RefreshCw size={12} />
+                                <span>Regenerate</span>
+                            </button>
+                            <button 
+                                onClick={() => { playUISound('click'); setShowRegenerateMenu(!showRegenerateMenu); }}
+                                className="text-gray-500 hover:text-white transition-colors text-xs hover:bg-white/5 px-1 py-1 rounded-r"
+                                title="Regenerate with another mode"
+                            >
+                                <ChevronDown size={12} className={`transition-transform ${showRegenerateMenu ? 'rotate-180' : ''}`} />
+                            </button>
+
+                            {/* Inline mode picker, the bubble clips overflowing menus */}
+                            {showRegenerateMenu && (
+                                <div className="flex items-center gap-1 ml-1 animate-fade-in">
+                                    {REGENERATE_MODES.map(({ mode, label }) => (
+                                        <button
+                                            key={mode}
+                                            onClick={() => { playUISound('click'); handleRegenerate(mode); }}
+                                            className="px-2 py-1 rounded text-xs text-gray-400 border border-white/10 hover:border-lynq-accent/30 hover:text-lynq-accent transition-colors"
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
                 </div>
             )}
           </div>
           
           {/* Grounding / Sources */}
-          {message.groundingUrls && message.groundingUrls.length > 0 && (
-              <div className="flex flex-wrap gap-2 mt-1 ml-1">
-                  {message.groundingUrls.map((url, idx) => (
-                      <a 
-                        key={idx}
-                        href={url.uri}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="flex items-center gap-1.5 px-2.5 py-1.5 bg-lynq-surfaceHover/50 border border-white/5 rounded-lg text-[10px] text-lynq-textMuted hover:text-lynq-accent hover:border-lynq-accent/30 hover:shadow-glow transition-all max-w-[200px] truncate"
-                      >
-                          <ExternalLink size={10} />
-                          <span className="truncate">{url.title}</span>
-                      </a>
-                  ))}
-              </div>
+          {/* Research reports carry their own bibliography */}
+          {message.groundingUrls && message.groundingUrls.length > 0 && !message.researchSteps && (
+              <SourceList sources={message.groundingUrls} citations={message.citations} />
           )}
 
           {/* Timestamp & Status */}
           <div className={`flex items-center gap-2 mt-1 px-1 text-[10px] text-gray-500/80 ${isUser ? 'justify-end' : 'justify-start'}`}>
+              {branch && branch.count > 1 && onSwitchBranch && (
+                  <div className="flex items-center gap-0.5 font-mono">
+                      <button 
+                          onClick={() => onSwitchBranch(-1)}
+                          disabled={!canModify || branch.index === 0}
+                          className="p-0.5 rounded hover:text-white hover:bg-white/5 disabled:opacity-30 disabled:hover:bg-transparent"
+                      >
+                          <ChevronLeft size={12} />
+                      </button>
+                      <span>{branch.index + 1} / {branch.count}</span>
+                      <button 
+                          onClick={() => onSwitchBranch(1)}
+                          disabled={!canModify || branch.index === branch.count - 1}
+                          className="p-0.5 rounded hover:text-white hover:bg-white/5 disabled:opacity-30 disabled:hover:bg-transparent"
+                      >
+                          <ChevronRight size={12} />
+                      </button>
+                      <span className="ml-1">•</span>
+                  </div>
+              )}
+              {isUser && onEdit && canModify && !isEditing && (
+                  <>
+                    <button 
+                        onClick={startEditing}
+                        className="flex items-center gap-1 hover:text-white transition-colors"
+                        title="Edit message"
+                    >
+                        <Pencil size={10} />
+                        <span>Edit</span>
+                    </button>
+                    <span>•</span>
+                  </>
+              )}
               <span>{new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
               {!isUser && message.executionTime && (
                   <>
@@ -182,6 +398,23 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onPlayAud
                     <span className="text-lynq-accent/80 font-mono">{(message.executionTime / 1000).toFixed(2)}s</span>
                   </>
               )}
+              {!isUser && message.usage && (
+                  <>
+                    <span>•</span>
+                    <span
+                      className="font-mono"
+                      title={message.usage.map(u => `${u.model}: ${u.inputTokens} in / ${u.outputTokens} out${u.thinkingTokens ? ` / ${u.thinkingTokens} thinking` : ''}${u.videoSeconds ? ` / ${u.videoSeconds}s video` : ''}`).join('\n')}
+                    >
+                      {formatTokens(message.usage.reduce((sum, u) => sum + u.inputTokens + u.outputTokens + u.thinkingTokens, 0))} tok
+                    </span>
+                  </>
+              )}
+              {message.isCancelled && (
+                  <>
+                    <span>•</span>
+                    <span className="text-red-400/80">Stopped</span>
+                  </>
+              )}
           </div>
 
         </div>
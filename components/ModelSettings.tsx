@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { AppMode } from '../types';
+import { ModelInfo, ModelKind, ModelPreferences, listModels, getModelInfo, taskModelKind } from '../services/providers/models';
+import { CHAT_ROUTES, TASK_ROUTES, TaskName } from '../services/providers/routes';
+import { X, Cpu, Plus, Trash2 } from 'lucide-react';
+import { playUISound } from '../utils/sound';
+
+interface ModelSettingsProps {
+  preferences: ModelPreferences;
+  sessionOverrides?: Partial<Record<AppMode, string>>;
+  onChange: (preferences: ModelPreferences) => void;
+  onSessionOverrideChange: (mode: AppMode, modelId?: string) => void;
+  onClose: () => void;
+}
+
+const CHAT_MODES: { mode: AppMode; label: string }[] = [
+  { mode: AppMode.FAST, label: 'Fast' },
+  { mode: AppMode.SMART, label: 'Smart' },
+  { mode: AppMode.CREATIVE, label: 'Creative' },
+  { mode: AppMode.RESEARCH, label: 'Research' },
+  { mode: AppMode.VOICE, label: 'Voice (text)' }
+];
+
+const TASKS: { task: TaskName; label: string }[] = [
+  { task: 'image', label: 'Images' },
+  { task: 'speech', label: 'Read Aloud' },
+  { task: 'video', label: 'Video' },
+  { task: 'live', label: 'Live Calls' },
+  { task: 'summary', label: 'Summaries' },
+  { task: 'intent', label: 'Intent Routing' }
+];
+
+const KIND_LABELS: Record<ModelKind, string> = {
+  chat: 'Chat',
+  image: 'Image',
+  speech: 'Speech',
+  video: 'Video',
+  live: 'Live'
+};
+
+const selectClass = "bg-black/30 border border-white/10 rounded-lg px-2.5 py-1.5 text-xs text-gray-100 focus:outline-none focus:border-lynq-accent/50 min-w-0";
+const inputClass = "bg-black/30 border border-white/10 rounded-lg px-2.5 py-1.5 text-xs text-gray-100 placeholder:text-gray-600 focus:outline-none focus:border-lynq-accent/50 min-w-0";
+const sectionClass = "text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-2";
+
+const CapabilityBadges: React.FC<{ model: ModelInfo }> = ({ model }) => {
+  const { capabilities } = model;
+  const badges = [
+    capabilities.grounding && 'Search',
+    capabilities.vision && 'Vision',
+    capabilities.pdf && 'PDF',
+    capabilities.thinking && 'Thinking',
+    capabilities.tools && 'Tools',
+    capabilities.maxOutputTokens > 0 && `${Math.round(capabilities.maxOutputTokens / 1024)}k out`,
+    model.preview && 'Preview'
+  ].filter(Boolean) as string[];
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {badges.map(badge => (
+        <span key={badge} className="px-1.5 py-0.5 rounded text-[9px] font-medium bg-white/5 text-gray-400 border border-white/5">{badge}</span>
+      ))}
+    </div>
+  );
+};
+
+const EMPTY_CUSTOM: ModelInfo = {
+  id: '',
+  label: '',
+  kind: 'chat',
+  capabilities: { grounding: false, vision: true, pdf: true, thinking: false, tools: false, maxOutputTokens: 8192 },
+  custom: true
+};
+
+export const ModelSettings: React.FC<ModelSettingsProps> = ({
+  preferences,
+  sessionOverrides,
+  onChange,
+  onSessionOverrideChange,
+  onClose
+}) => {
+  const [custom, setCustom] = useState<ModelInfo>(EMPTY_CUSTOM);
+  const chatModels = listModels('chat');
+
+  const setChatModel = (mode: AppMode, id: string) => {
+    playUISound('click');
+    onChange({ ...preferences, chat: { ...preferences.chat, [mode]: id || undefined } });
+  };
+
+  const setTaskModel = (task: TaskName, id: string) => {
+    playUISound('click');
+    onChange({ ...preferences, tasks: { ...preferences.tasks, [task]: id || undefined } });
+  };
+
+  const addCustom = () => {
+    const id = custom.id.trim();
+    if (!id) return;
+    playUISound('click');
+    const model: ModelInfo = { ...custom, id, label: custom.label.trim() || id, custom: true };
+    onChange({ ...preferences, custom: [...preferences.custom.filter(m => m.id !== id), model] });
+    setCustom(EMPTY_CUSTOM);
+  };
+
+  const removeCustom = (id: string) => {
+    playUISound('click');
+    onChange({ ...preferences, custom: preferences.custom.filter(m => m.id !== id) });
+  };
+
+  const updateCapability = (key: 'grounding' | 'vision' | 'pdf' | 'thinking' | 'tools', value: boolean) => {
+    setCustom(prev => ({ ...prev, capabilities: { ...prev.capabilities, [key]: value } }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/70 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[85vh] bg-[#121418]/95 border border-white/10 rounded-2xl shadow-glass flex flex-col overflow-hidden animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-white/5">
+          <div className="flex items-center gap-2">
+            <Cpu size={18} className="text-lynq-accent" />
+            <h2 className="text-sm font-semibold text-white">Models</h2>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-lg text-gray-500 hover:text-white hover:bg-white/5 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6 custom-scrollbar">
+          {/* Chat Modes */}
+          <div>
+            <p className={sectionClass}>Chat Modes</p>
+            <div className="grid grid-cols-[90px_1fr_1fr] gap-x-3 gap-y-1 text-[10px] text-gray-600 px-1 mb-1">
+              <span />
+              <span>All chats</span>
+              <span>This chat</span>
+            </div>
+            <div className="space-y-2">
+              {CHAT_MODES.map(({ mode, label }) => {
+                const effective = getModelInfo(sessionOverrides?.[mode] || preferences.chat[mode] || CHAT_ROUTES[mode].model);
+                return (
+                  <div key={mode} className="rounded-xl bg-white/[0.02] border border-white/5 p-3 space-y-2">
+                    <div className="grid grid-cols-[90px_1fr_1fr] gap-3 items-center">
+                      <span className="text-xs text-gray-300">{label}</span>
+                      <select className={selectClass} value={preferences.chat[mode] || ''} onChange={(e) => setChatModel(mode, e.target.value)}>
+                        <option value="">Default ({getModelInfo(CHAT_ROUTES[mode].model).label})</option>
+                        {chatModels.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                      </select>
+                      <select
+                        className={selectClass}
+                        value={sessionOverrides?.[mode] || ''}
+                        onChange={(e) => { playUISound('click'); onSessionOverrideChange(mode, e.target.value || undefined); }}
+                      >
+                        <option value="">Same as all chats</option>
+                        {chatModels.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                      </select>
+                    </div>
+                    <div className="pl-[102px]">
+                      <CapabilityBadges model={effective} />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Media & Background Tasks */}
+          <div>
+            <p className={sectionClass}>Media & Background</p>
+            <div className="space-y-2">
+              {TASKS.map(({ task, label }) => (
+                <div key={task} className="grid grid-cols-[90px_1fr] gap-3 items-center">
+                  <span className="text-xs text-gray-300">{label}</span>
+                  <select className={selectClass} value={preferences.tasks[task] || ''} onChange={(e) => setTaskModel(task, e.target.value)}>
+                    <option value="">Default ({getModelInfo(TASK_ROUTES[task].model).label})</option>
+                    {listModels(taskModelKind(task)).map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Custom Models */}
+          <div>
+            <p className={sectionClass}>Custom Models</p>
+            <p className="text-[11px] text-gray-500 mb-3">Add a model id when a preview is renamed or a new one ships, then pick it above.</p>
+
+            {preferences.custom.length > 0 && (
+              <div className="space-y-1.5 mb-3">
+                {preferences.custom.map(model => (
+                  <div key={model.id} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-white/[0.02] border border-white/5">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs text-gray-200 truncate">{model.label} <span className="text-gray-600 font-mono">{model.id}</span></p>
+                      <div className="mt-1 flex items-center gap-2">
+                        <span className="text-[9px] uppercase tracking-wider text-gray-500">{KIND_LABELS[model.kind]}</span>
+                        <CapabilityBadges model={model} />
+                      </div>
+                    </div>
+                    <button onClick={() => removeCustom(model.id)} className="p-1.5 rounded-md text-gray-500 hover:text-red-400 hover:bg-red-500/10 transition-colors">
+                      <Trash2 size={13} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="rounded-xl bg-white/[0.02] border border-white/5 p-3 space-y-2.5">
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_100px] gap-2">
+                <input className={`${inputClass} font-mono`} placeholder="model-id" value={custom.id} onChange={(e) => setCustom({ ...custom, id: e.target.value })} />
+                <input className={inputClass} placeholder="Display name" value={custom.label} onChange={(e) => setCustom({ ...custom, label: e.target.value })} />
+                <select className={selectClass} value={custom.kind} onChange={(e) => setCustom({ ...custom, kind: e.target.value as ModelKind })}>
+                  {(Object.keys(KIND_LABELS) as ModelKind[]).map(kind => <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>)}
+                </select>
+              </div>
+              <div className="flex flex-wrap items-center gap-4">
+                {(['grounding', 'vision', 'pdf', 'thinking', 'tools'] as const).map(key => (
+                  <label key={key} className="flex items-center gap-1.5 text-xs text-gray-400 cursor-pointer">
+                    <input type="checkbox" className="accent-lynq-accent" checked={custom.capabilities[key]} onChange={(e) => updateCapability(key, e.target.checked)} />
+                    <span className="capitalize">{key === 'grounding' ? 'Search' : key}</span>
+                  </label>
+                ))}
+                <label className="flex items-center gap-1.5 text-xs text-gray-400">
+                  <span>Max output</span>
+                  <input
+                    type="number"
+                    min={0}
+                    className={`${inputClass} w-24`}
+                    value={custom.capabilities.maxOutputTokens}
+                    onChange={(e) => setCustom({ ...custom, capabilities: { ...custom.capabilities, maxOutputTokens: Number(e.target.value) || 0 } })}
+                  />
+                </label>
+                <div className="flex-1" />
+                <button
+                  onClick={addCustom}
+                  disabled={!custom.id.trim()}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-lynq-accent bg-lynq-accent/10 hover:bg-lynq-accent/20 border border-lynq-accent/20 disabled:opacity-40 transition-colors"
+                >
+                  <Plus size={13} />
+                  <span>Add Model</span>
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
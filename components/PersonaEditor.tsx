@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import { AppMode, Persona } from '../types';
+import { createPersona } from '../services/personas';
+import { X, Plus, Copy, Trash2, Check, UserCircle2, Lock } from 'lucide-react';
+import { playUISound } from '../utils/sound';
+
+interface PersonaEditorProps {
+  personas: Persona[];
+  defaultPersonaId: string;
+  sessionPersonaId?: string; // Explicit choice for the current chat, if any
+  onSave: (persona: Persona) => void;
+  onDelete: (id: string) => void;
+  onSetDefault: (id: string) => void;
+  onSetSessionPersona: (id?: string) => void;
+  onClose: () => void;
+}
+
+// Modes whose instruction a persona may replace
+const OVERRIDABLE_MODES: { mode: AppMode; label: string }[] = [
+  { mode: AppMode.FAST, label: 'Fast' },
+  { mode: AppMode.SMART, label: 'Smart' },
+  { mode: AppMode.CREATIVE, label: 'Creative' },
+  { mode: AppMode.RESEARCH, label: 'Research report' },
+  { mode: AppMode.VOICE, label: 'Voice (text)' }
+];
+
+const inputClass = "w-full bg-black/30 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-100 placeholder:text-gray-600 focus:outline-none focus:border-lynq-accent/50 disabled:opacity-60";
+const labelClass = "block text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1.5";
+
+export const PersonaEditor: React.FC<PersonaEditorProps> = ({
+  personas,
+  defaultPersonaId,
+  sessionPersonaId,
+  onSave,
+  onDelete,
+  onSetDefault,
+  onSetSessionPersona,
+  onClose
+}) => {
+  const [selectedId, setSelectedId] = useState(sessionPersonaId || defaultPersonaId);
+  const [draft, setDraft] = useState<Persona>(() => personas.find(p => p.id === (sessionPersonaId || defaultPersonaId)) || personas[0]);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const readOnly = !!draft.builtIn;
+
+  const select = (persona: Persona) => {
+    playUISound('click');
+    setSelectedId(persona.id);
+    setDraft(persona);
+    setIsDirty(false);
+  };
+
+  const update = (changes: Partial<Persona>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setIsDirty(true);
+  };
+
+  const updateModeInstruction = (mode: AppMode, value: string) => {
+    update({ modeInstructions: { ...draft.modeInstructions, [mode]: value } });
+  };
+
+  const addPersona = (base?: Persona) => {
+    const persona = createPersona(base);
+    onSave(persona);
+    select(persona);
+  };
+
+  const save = () => {
+    if (readOnly || !draft.name.trim()) return;
+    playUISound('click');
+    onSave({ ...draft, name: draft.name.trim() });
+    setIsDirty(false);
+  };
+
+  const remove = () => {
+    if (readOnly) return;
+    playUISound('click');
+    onDelete(draft.id);
+    const fallback = personas.find(p => p.id === defaultPersonaId && p.id !== draft.id) || personas[0];
+    setSelectedId(fallback.id);
+    setDraft(fallback);
+    setIsDirty(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/70 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl h-[85vh] bg-[#121418]/95 border border-white/10 rounded-2xl shadow-glass flex flex-col overflow-hidden animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-white/5">
+          <div className="flex items-center gap-2">
+            <UserCircle2 size={18} className="text-lynq-accent" />
+            <h2 className="text-sm font-semibold text-white">Personas</h2>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-lg text-gray-500 hover:text-white hover:bg-white/5 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Persona List */}
+          <div className="w-56 border-r border-white/5 flex flex-col">
+            <div className="flex-1 overflow-y-auto p-2 space-y-1 custom-scrollbar">
+              {personas.map(persona => (
+                <button
+                  key={persona.id}
+                  onClick={() => select(persona)}
+                  className={`w-full text-left px-3 py-2.5 rounded-lg text-sm transition-colors flex items-center gap-2 ${selectedId === persona.id ? 'bg-lynq-accent/10 text-lynq-accent' : 'text-gray-300 hover:bg-white/5'}`}
+                >
+                  <span className="flex-1 truncate">{persona.name}</span>
+                  {persona.id === defaultPersonaId && (
+                    <span className="text-[9px] uppercase tracking-wider text-gray-500">Default</span>
+                  )}
+                  {persona.builtIn && <Lock size={10} className="text-gray-600 shrink-0" />}
+                </button>
+              ))}
+            </div>
+            <div className="p-2 border-t border-white/5">
+              <button
+                onClick={() => { playUISound('click'); addPersona(); }}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-xs font-medium text-lynq-accent bg-lynq-accent/10 hover:bg-lynq-accent/20 border border-lynq-accent/20 transition-colors"
+              >
+                <Plus size={14} />
+                <span>New Persona</span>
+              </button>
+            </div>
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 flex flex-col min-w-0">
+            <div className="flex-1 overflow-y-auto p-5 space-y-4 custom-scrollbar">
+              {readOnly && (
+                <div className="flex items-center gap-2 text-xs text-gray-400 bg-white/5 border border-white/5 rounded-lg px-3 py-2">
+                  <Lock size={12} />
+                  <span>Built-in personas are read-only. Duplicate one to customize it.</span>
+                </div>
+              )}
+
+              <div>
+                <label className={labelClass}>Name</label>
+                <input className={inputClass} value={draft.name} disabled={readOnly} onChange={(e) => update({ name: e.target.value })} />
+              </div>
+
+              <div>
+                <label className={labelClass}>Identity</label>
+                <textarea
+                  className={`${inputClass} font-mono text-xs min-h-[140px] resize-y`}
+                  value={draft.identity}
+                  disabled={readOnly}
+                  placeholder="- Name: ...&#10;- Creator: ..."
+                  onChange={(e) => update({ identity: e.target.value })}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Tone</label>
+                  <input className={inputClass} value={draft.tone} disabled={readOnly} onChange={(e) => update({ tone: e.target.value })} />
+                </div>
+                <div>
+                  <label className={labelClass}>Default Language</label>
+                  <input className={inputClass} value={draft.language} disabled={readOnly} onChange={(e) => update({ language: e.target.value })} />
+                </div>
+              </div>
+
+              <div>
+                <label className={labelClass}>Mode Overrides</label>
+                <p className="text-[11px] text-gray-500 mb-2">Leave empty to keep the built-in instruction for that mode.</p>
+                <div className="space-y-2">
+                  {OVERRIDABLE_MODES.map(({ mode, label }) => (
+                    <div key={mode} className="flex gap-3 items-start">
+                      <span className="w-24 shrink-0 pt-2 text-xs text-gray-400">{label}</span>
+                      <textarea
+                        className={`${inputClass} text-xs min-h-[38px] resize-y`}
+                        rows={1}
+                        value={draft.modeInstructions?.[mode] || ''}
+                        disabled={readOnly}
+                        onChange={(e) => updateModeInstruction(mode, e.target.value)}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className={labelClass}>Live Call Rules</label>
+                <textarea
+                  className={`${inputClass} font-mono text-xs min-h-[90px] resize-y`}
+                  value={draft.liveInstruction || ''}
+                  disabled={readOnly}
+                  onChange={(e) => update({ liveInstruction: e.target.value })}
+                />
+              </div>
+            </div>
+
+            {/* Actions */}
+            <div className="flex flex-wrap items-center gap-2 px-5 py-3 border-t border-white/5 bg-black/20">
+              <button
+                onClick={() => { playUISound('click'); onSetDefault(draft.id); }}
+                disabled={draft.id === defaultPersonaId}
+                className="px-3 py-1.5 rounded-lg text-xs font-medium text-gray-300 bg-white/5 hover:bg-white/10 border border-white/10 disabled:opacity-40 transition-colors"
+              >
+                Use as Default
+              </button>
+              {sessionPersonaId === draft.id ? (
+                <button
+                  onClick={() => { playUISound('click'); onSetSessionPersona(undefined); }}
+                  className="px-3 py-1.5 rounded-lg text-xs font-medium text-lynq-accent bg-lynq-accent/10 border border-lynq-accent/20 transition-colors"
+                >
+                  Used in This Chat
+                </button>
+              ) : (
+                <button
+                  onClick={() => { playUISound('click'); onSetSessionPersona(draft.id); }}
+                  className="px-3 py-1.5 rounded-lg text-xs font-medium text-gray-300 bg-white/5 hover:bg-white/10 border border-white/10 transition-colors"
+                >
+                  Use in This Chat
+                </button>
+              )}
+
+              <div className="flex-1" />
+
+              <button
+                onClick={() => { playUISound('click'); addPersona(draft); }}
+                className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-colors"
+                title="Duplicate"
+              >
+                <Copy size={14} />
+              </button>
+              {!readOnly && (
+                <>
+                  <button
+                    onClick={remove}
+                    className="p-2 rounded-lg text-gray-400 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                    title="Delete"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                  <button
+                    onClick={save}
+                    disabled={!isDirty || !draft.name.trim()}
+                    className="flex items-center gap-1.5 px-4 py-1.5 rounded-lg text-xs font-semibold bg-lynq-accent text-lynq-dark hover:bg-lynq-accentHover disabled:opacity-40 transition-colors"
+                  >
+                    <Check size={14} />
+                    <span>Save</span>
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { Brain, ChevronRight, Loader2 } from 'lucide-react';
+
+interface ReasoningSummaryProps {
+  thoughts: string;
+  isThinking?: boolean;
+}
+
+// The model's thought summaries, collapsed under the answer's header
+export const ReasoningSummary: React.FC<ReasoningSummaryProps> = ({ thoughts, isThinking }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const expanded = isOpen || isThinking;
+
+  return (
+    <div className="mb-3 rounded-lg border border-white/5 bg-black/20 overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-xs text-gray-400 hover:text-gray-200 hover:bg-white/5 transition-colors"
+      >
+        <ChevronRight size={12} className={`transition-transform ${expanded ? 'rotate-90' : ''}`} />
+        {isThinking
+          ? <Loader2 size={12} className="animate-spin text-lynq-accent/80" />
+          : <Brain size={12} className="text-lynq-accent/80" />
+        }
+        <span className="font-medium">{isThinking ? 'Thinking…' : 'Reasoning'}</span>
+      </button>
+      {expanded && (
+        <div className="px-4 pb-3 text-xs text-gray-400 leading-relaxed max-h-72 overflow-y-auto custom-scrollbar border-l-2 border-lynq-accent/20 ml-4">
+          <ReactMarkdown
+            components={{
+              p: ({node, ...props}) => <p className="mb-2 last:mb-0" {...props} />,
+              strong: ({node, ...props}) => <strong className="text-gray-300 font-medium" {...props} />
+            }}
+          >
+            {thoughts}
+          </ReactMarkdown>
+        </div>
+      )}
+    </div>
+  );
+};
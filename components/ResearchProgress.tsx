@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { ResearchStep } from '../types';
+import { ChevronRight, Check, Circle, Loader2, AlertTriangle, Telescope } from 'lucide-react';
+
+interface ResearchProgressProps {
+  steps: ResearchStep[];
+  isStreaming?: boolean;
+}
+
+const StepIcon: React.FC<{ status: ResearchStep['status'] }> = ({ status }) => {
+  switch (status) {
+    case 'running': return <Loader2 size={12} className="animate-spin text-lynq-accent" />;
+    case 'done': return <Check size={12} className="text-lynq-accent/80" />;
+    case 'failed': return <AlertTriangle size={12} className="text-red-400" />;
+    default: return <Circle size={10} className="text-gray-600" />;
+  }
+};
+
+// Plan, searches and write-up of a research run; open while it works, folded away after
+export const ResearchProgress: React.FC<ResearchProgressProps> = ({ steps, isStreaming }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const expanded = isOpen || isStreaming;
+  const done = steps.filter(s => s.status === 'done').length;
+  const current = steps.find(s => s.status === 'running');
+
+  return (
+    <div className="mb-3 rounded-lg border border-white/5 bg-black/20 overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-xs text-gray-400 hover:text-gray-200 hover:bg-white/5 transition-colors"
+      >
+        <ChevronRight size={12} className={`transition-transform ${expanded ? 'rotate-90' : ''}`} />
+        <Telescope size={12} className="text-lynq-accent/80" />
+        <span className="font-medium">{isStreaming && current ? current.label : 'Research steps'}</span>
+        <span className="ml-auto font-mono text-gray-600 shrink-0">{done}/{steps.length}</span>
+      </button>
+      {expanded && (
+        <ol className="px-3 pb-3 space-y-1.5">
+          {steps.map(step => (
+            <li key={step.id} className={`flex items-start gap-2 text-[11px] ${step.status === 'pending' ? 'text-gray-600' : 'text-gray-400'}`}>
+              <span className="mt-0.5 w-3 flex justify-center shrink-0"><StepIcon status={step.status} /></span>
+              <span className="flex-1 min-w-0">{step.label}</span>
+              {step.detail && (
+                <span className={`shrink-0 font-mono ${step.status === 'failed' ? 'text-red-300/80' : 'text-gray-600'}`}>{step.detail}</span>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
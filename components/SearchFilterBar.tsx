@@ -0,0 +1,78 @@
+import React from 'react';
+import { AppMode, AttachmentType } from '../types';
+import { SearchFilters } from '../utils/searchIndex';
+import { Image as ImageIcon, Video } from 'lucide-react';
+import { playUISound } from '../utils/sound';
+
+interface SearchFilterBarProps {
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+}
+
+// Date inputs work in local days; `to` covers the whole day it names
+const toDateInput = (timestamp?: number): string => {
+  if (timestamp === undefined) return '';
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const fromDateInput = (value: string, endOfDay: boolean): number | undefined => {
+  if (!value) return undefined;
+  const date = new Date(`${value}T00:00:00`);
+  if (endOfDay) date.setDate(date.getDate() + 1);
+  return date.getTime() - (endOfDay ? 1 : 0);
+};
+
+const chipClass = (active: boolean) => `flex items-center gap-1 px-2 py-1 rounded-md text-[10px] font-medium border transition-colors ${
+  active ? 'bg-lynq-accent/10 border-lynq-accent/30 text-lynq-accent' : 'border-white/5 text-gray-500 hover:text-gray-300 hover:bg-white/5'
+}`;
+
+const dateClass = "flex-1 min-w-0 bg-black/30 border border-white/10 rounded-md px-1.5 py-1 text-[10px] text-gray-300 focus:outline-none focus:border-lynq-accent/40 [color-scheme:dark]";
+
+export const SearchFilterBar: React.FC<SearchFilterBarProps> = ({ filters, onChange }) => {
+  const toggle = (changes: SearchFilters) => {
+    playUISound('click');
+    onChange({ ...filters, ...changes });
+  };
+
+  return (
+    <div className="space-y-2 pt-2 animate-fade-in">
+      <div className="flex flex-wrap gap-1">
+        {Object.values(AppMode).map(mode => (
+          <button key={mode} onClick={() => toggle({ mode: filters.mode === mode ? undefined : mode })} className={chipClass(filters.mode === mode)}>
+            {mode.toLowerCase()}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-1">
+        <button onClick={() => toggle({ media: filters.media === AttachmentType.IMAGE ? undefined : AttachmentType.IMAGE })} className={chipClass(filters.media === AttachmentType.IMAGE)}>
+          <ImageIcon size={11} />
+          <span>Has image</span>
+        </button>
+        <button onClick={() => toggle({ media: filters.media === AttachmentType.VIDEO ? undefined : AttachmentType.VIDEO })} className={chipClass(filters.media === AttachmentType.VIDEO)}>
+          <Video size={11} />
+          <span>Has video</span>
+        </button>
+      </div>
+      <div className="flex items-center gap-1">
+        <input
+          type="date"
+          aria-label="From"
+          value={toDateInput(filters.from)}
+          max={toDateInput(filters.to)}
+          onChange={(e) => onChange({ ...filters, from: fromDateInput(e.target.value, false) })}
+          className={dateClass}
+        />
+        <span className="text-[10px] text-gray-600">–</span>
+        <input
+          type="date"
+          aria-label="To"
+          value={toDateInput(filters.to)}
+          min={toDateInput(filters.from)}
+          onChange={(e) => onChange({ ...filters, to: fromDateInput(e.target.value, true) })}
+          className={dateClass}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React from 'react';
+import { MessageRole } from '../types';
+import { SearchResult, SearchSnippet } from '../utils/searchIndex';
+import { FileText, Link2, User, Sparkles } from 'lucide-react';
+
+interface SearchResultsProps {
+  results: SearchResult[];
+  onOpen: (result: SearchResult) => void;
+}
+
+const Highlighted: React.FC<{ snippet: SearchSnippet }> = ({ snippet }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  snippet.highlights.forEach(([start, end], i) => {
+    if (start > cursor) parts.push(snippet.text.slice(cursor, start));
+    parts.push(<mark key={i} className="bg-lynq-accent/20 text-lynq-accent rounded-sm px-0.5">{snippet.text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(snippet.text.slice(cursor));
+  return <>{parts}</>;
+};
+
+export const SearchResults: React.FC<SearchResultsProps> = ({ results, onOpen }) => {
+  if (results.length === 0) {
+    return <p className="px-3 py-6 text-xs text-center text-gray-600">No messages match.</p>;
+  }
+
+  return (
+    <>
+      {results.map(result => (
+        <button
+          key={result.message.id}
+          onClick={() => onOpen(result)}
+          className="w-full text-left px-3 py-2.5 rounded-lg hover:bg-white/5 transition-colors group animate-fade-in"
+        >
+          <div className="flex items-center gap-1.5 text-[10px] text-gray-500 mb-1">
+            {result.message.role === MessageRole.USER
+              ? <User size={10} className="shrink-0" />
+              : <Sparkles size={10} className="shrink-0 text-lynq-accent/70" />
+            }
+            <span className="truncate font-medium text-gray-400 group-hover:text-gray-200">{result.sessionTitle}</span>
+            <span className="shrink-0 opacity-60">· {new Date(result.message.timestamp).toLocaleDateString()}</span>
+          </div>
+          <p className="text-xs text-lynq-textMuted leading-relaxed line-clamp-3 break-words">
+            {result.field === 'attachment' && <FileText size={11} className="inline mr-1 -mt-0.5 text-gray-500" />}
+            {result.field === 'source' && <Link2 size={11} className="inline mr-1 -mt-0.5 text-gray-500" />}
+            <Highlighted snippet={result.snippet} />
+          </p>
+        </button>
+      ))}
+    </>
+  );
+};
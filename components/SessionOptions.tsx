@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { ChatSession } from '../types';
+import { parseTags, SessionOrganization } from '../utils/sessionOrganization';
+import { Pin, PinOff, Archive, ArchiveRestore, Download } from 'lucide-react';
+import { playUISound } from '../utils/sound';
+
+interface SessionOptionsProps {
+  session: ChatSession;
+  folders: string[];
+  onUpdate: (changes: SessionOrganization) => void;
+  onExport: () => void;
+}
+
+const inputClass = "w-full bg-black/30 border border-white/10 rounded-md px-2 py-1 text-xs text-gray-200 placeholder:text-gray-600 focus:outline-none focus:border-lynq-accent/40";
+const actionClass = "flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md text-[11px] text-gray-400 hover:text-white hover:bg-white/5 border border-white/5 transition-colors";
+
+// Pin, folder, tags, archive and export for one chat, unfolded under its sidebar row
+export const SessionOptions: React.FC<SessionOptionsProps> = ({ session, folders, onUpdate, onExport }) => {
+  const [folder, setFolder] = useState(session.folder || '');
+  const [tags, setTags] = useState((session.tags || []).join(', '));
+
+  const commitFolder = () => {
+    const name = folder.trim() || undefined;
+    if (name !== session.folder) onUpdate({ folder: name });
+  };
+
+  const commitTags = () => {
+    const next = parseTags(tags);
+    setTags(next.join(', '));
+    if (next.join(',') !== (session.tags || []).join(',')) onUpdate({ tags: next.length > 0 ? next : undefined });
+  };
+
+  const act = (changes: SessionOrganization) => {
+    playUISound('click');
+    onUpdate(changes);
+  };
+
+  return (
+    <div className="mx-2 mb-2 p-2.5 space-y-2 rounded-lg bg-black/20 border border-white/5 animate-fade-in" onClick={(e) => e.stopPropagation()}>
+      <div className="flex gap-1">
+        <button onClick={() => act({ pinned: !session.pinned })} className={actionClass}>
+          {session.pinned ? <PinOff size={12} /> : <Pin size={12} />}
+          <span>{session.pinned ? 'Unpin' : 'Pin'}</span>
+        </button>
+        <button onClick={() => act({ archived: !session.archived })} className={actionClass}>
+          {session.archived ? <ArchiveRestore size={12} /> : <Archive size={12} />}
+          <span>{session.archived ? 'Unarchive' : 'Archive'}</span>
+        </button>
+        <button onClick={onExport} className={actionClass}>
+          <Download size={12} />
+          <span>Export</span>
+        </button>
+      </div>
+      <input
+        className={inputClass}
+        value={folder}
+        list="lynq-folders"
+        placeholder="Folder"
+        onChange={(e) => setFolder(e.target.value)}
+        onBlur={commitFolder}
+        onKeyDown={(e) => { if (e.key === 'Enter') commitFolder(); }}
+      />
+      <datalist id="lynq-folders">
+        {folders.map(name => <option key={name} value={name} />)}
+      </datalist>
+      <input
+        className={inputClass}
+        value={tags}
+        placeholder="Tags, comma separated"
+        onChange={(e) => setTags(e.target.value)}
+        onBlur={commitTags}
+        onKeyDown={(e) => { if (e.key === 'Enter') commitTags(); }}
+      />
+    </div>
+  );
+};
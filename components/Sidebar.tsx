@@ -1,6 +1,24 @@
-import React from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import { ChatSession } from '../types';
-import { Plus, MessageSquare, Trash2, Github, Settings, X } from 'lucide-react';
+import { Plus, MessageSquare, Trash2, Github, Settings, X, Cpu, BarChart3, Pencil, Search, SlidersHorizontal, ArrowDownUp, MoreHorizontal, Pin, Folder, ChevronDown, RotateCcw } from 'lucide-react';
+import { playUISound } from '../utils/sound';
+import { hasFilters, SearchFilters, SearchIndex } from '../utils/searchIndex';
+import { SearchResults } from './SearchResults';
+import { SearchFilterBar } from './SearchFilterBar';
+import { SessionOptions } from './SessionOptions';
+import { folderNames, groupSessions, PINNED_GROUP, SessionOrganization, trashDaysLeft, TRASH_RETENTION_DAYS, UNFILED_GROUP } from '../utils/sessionOrganization';
+
+type SidebarView = 'chats' | 'archived' | 'trash';
+
+const VIEWS: { id: SidebarView; label: string }[] = [
+  { id: 'chats', label: 'Chats' },
+  { id: 'archived', label: 'Archived' },
+  { id: 'trash', label: 'Trash' }
+];
+
+// Lets drops ignore anything dragged in from outside the list
+const DRAG_TYPE = 'application/x-lynq-session';
+const ALL_TRASH = 'all';
 
 interface SidebarProps {
   sessions: ChatSession[];
@@ -8,6 +26,16 @@ interface SidebarProps {
   onSessionSelect: (id: string) => void;
   onNewSession: () => void;
   onDeleteSession?: (e: React.MouseEvent, id: string) => void;
+  onRenameSession?: (id: string, title: string) => void;
+  onOpenMessage: (sessionId: string, messageId: string) => void;
+  onOpenPersonas: () => void;
+  onOpenModelSettings: () => void;
+  onOpenUsage: () => void;
+  onOpenTransfer: (sessionId: string) => void;
+  onUpdateSession: (id: string, changes: SessionOrganization) => void;
+  onRestoreSession: (id: string) => void;
+  onPurgeSession: (id: string) => void; // Deletes a trashed chat for good
+  onEmptyTrash: () => void;
   onCloseMobile: () => void;
 }
 
@@ -17,8 +45,165 @@ export const Sidebar: React.FC<SidebarProps> = ({
   onSessionSelect, 
   onNewSession,
   onDeleteSession,
+  onRenameSession,
+  onOpenMessage,
+  onOpenPersonas,
+  onOpenModelSettings,
+  onOpenUsage,
+  onOpenTransfer,
+  onUpdateSession,
+  onRestoreSession,
+  onPurgeSession,
+  onEmptyTrash,
   onCloseMobile
 }) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const indexRef = useRef<SearchIndex | null>(null);
+  const [view, setView] = useState<SidebarView>('chats');
+  const [optionsId, setOptionsId] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropKey, setDropKey] = useState<string | null>(null);
+  // Trashed chat id, or ALL_TRASH, waiting for a second click before it is deleted for good
+  const [confirmingPurge, setConfirmingPurge] = useState<string | null>(null);
+
+  const isSearching = query.trim().length > 0 || hasFilters(filters);
+  // Built on first search, then kept in step with every change to the sessions
+  const results = useMemo(() => {
+    if (!isSearching) return [];
+    if (!indexRef.current) indexRef.current = new SearchIndex();
+    indexRef.current.update(sessions.filter(s => !s.deletedAt));
+    return indexRef.current.search(query, filters);
+  }, [sessions, query, filters, isSearching]);
+
+  const groups = useMemo(() => groupSessions(sessions, draggingId !== null), [sessions, draggingId]);
+  const folders = useMemo(() => folderNames(sessions), [sessions]);
+  const archived = sessions.filter(s => s.archived && !s.deletedAt);
+  const trashed = sessions.filter(s => s.deletedAt).sort((a, b) => b.deletedAt! - a.deletedAt!);
+
+  const toggleGroup = (key: string) => {
+    playUISound('click');
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  const clearSearch = () => {
+    setQuery('');
+    setFilters({});
+  };
+
+  const startRename = (e: React.MouseEvent, session: ChatSession) => {
+    e.stopPropagation();
+    playUISound('click');
+    setRenamingId(session.id);
+    setDraftTitle(session.title);
+  };
+
+  // An empty or unchanged title leaves the chat as it was
+  const commitRename = () => {
+    const session = sessions.find(s => s.id === renamingId);
+    const title = draftTitle.trim();
+    if (session && title && title !== session.title) onRenameSession?.(session.id, title);
+    setRenamingId(null);
+  };
+
+  const renderSession = (session: ChatSession, index: number) => (
+    <React.Fragment key={session.id}>
+      <div 
+        onClick={() => onSessionSelect(session.id)}
+        draggable={view === 'chats'}
+        onDragStart={(e) => {
+          e.dataTransfer.setData(DRAG_TYPE, session.id);
+          e.dataTransfer.effectAllowed = 'move';
+          setDraggingId(session.id);
+        }}
+        onDragEnd={() => { setDraggingId(null); setDropKey(null); }}
+        className={`
+            group relative flex items-center gap-3 px-3 py-3 rounded-lg cursor-pointer transition-all duration-200
+            ${session.id === currentSessionId 
+                ? 'bg-lynq-surfaceHover text-white shadow-sm ring-1 ring-white/5' 
+                : 'text-lynq-textMuted hover:bg-white/5 hover:text-lynq-text'
+            }
+            animate-slide-up
+        `}
+        style={{ animationDelay: `${index * 50}ms` }}
+      >
+          <MessageSquare size={16} className={session.id === currentSessionId ? 'text-lynq-accent' : 'text-gray-600'} />
+          
+          <div className="flex-1 min-w-0">
+              {renamingId === session.id ? (
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    maxLength={60}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onClick={(e) => e.stopPropagation()}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="w-full bg-black/30 border border-lynq-accent/30 rounded px-1.5 py-0.5 text-sm text-white focus:outline-none"
+                  />
+              ) : (
+                  <p className="text-sm font-medium truncate" onDoubleClick={onRenameSession ? (e) => startRename(e, session) : undefined}>{session.title}</p>
+              )}
+              <p className="text-[10px] opacity-50 truncate">
+                  {new Date(session.lastUpdated).toLocaleDateString()} · {session.settings.mode.toLowerCase()}
+                  {session.tags?.map(tag => <span key={tag}> · #{tag}</span>)}
+              </p>
+          </div>
+
+          {onRenameSession && renamingId !== session.id && (
+              <button 
+                onClick={(e) => startRename(e, session)}
+                title="Rename"
+                className="p-1.5 rounded-md text-gray-500 hover:text-lynq-accent hover:bg-white/5 transition-all opacity-0 group-hover:opacity-100"
+              >
+                  <Pencil size={13} />
+              </button>
+          )}
+
+          <button 
+            onClick={(e) => { e.stopPropagation(); playUISound('click'); setOptionsId(prev => prev === session.id ? null : session.id); }}
+            title="More"
+            className={`p-1.5 rounded-md hover:text-lynq-accent hover:bg-white/5 transition-all ${optionsId === session.id ? 'opacity-100 text-lynq-accent' : 'text-gray-500 opacity-0 group-hover:opacity-100'}`}
+          >
+              <MoreHorizontal size={14} />
+          </button>
+
+          {/* Delete Button (Visible on hover or active), moves the chat to the trash */}
+          {onDeleteSession && (
+              <button 
+                onClick={(e) => onDeleteSession(e, session.id)}
+                title="Move to trash"
+                className={`
+                    p-1.5 rounded-md text-gray-500 hover:text-red-400 hover:bg-red-500/10 transition-all opacity-0 group-hover:opacity-100
+                    ${session.id === currentSessionId ? 'opacity-100' : ''}
+                `}
+              >
+                  <Trash2 size={14} />
+              </button>
+          )}
+      </div>
+      {optionsId === session.id && (
+        <SessionOptions
+          session={session}
+          folders={folders}
+          onUpdate={(changes) => onUpdateSession(session.id, changes)}
+          onExport={() => onOpenTransfer(session.id)}
+        />
+      )}
+    </React.Fragment>
+  );
+
   return (
     <div className="flex flex-col h-full">
       {/* Header */}
@@ -39,54 +224,201 @@ export const Sidebar: React.FC<SidebarProps> = ({
           </button>
       </div>
 
+      {/* Search */}
+      <div className="px-3 pt-3">
+          <div className="flex items-center gap-2 bg-black/20 border border-white/5 focus-within:border-lynq-accent/30 rounded-lg px-2.5 py-2 transition-colors">
+              <Search size={14} className="text-gray-500 shrink-0" />
+              <input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Escape') clearSearch(); }}
+                placeholder="Search messages"
+                className="flex-1 min-w-0 bg-transparent text-sm text-gray-200 placeholder:text-gray-600 focus:outline-none"
+              />
+              {isSearching && (
+                  <button onClick={clearSearch} title="Clear search" className="text-gray-500 hover:text-white">
+                      <X size={14} />
+                  </button>
+              )}
+              <button
+                onClick={() => { playUISound('click'); setShowFilters(prev => !prev); }}
+                title="Filters"
+                className={`transition-colors ${showFilters || hasFilters(filters) ? 'text-lynq-accent' : 'text-gray-500 hover:text-white'}`}
+              >
+                  <SlidersHorizontal size={14} />
+              </button>
+          </div>
+          {showFilters && <SearchFilterBar filters={filters} onChange={setFilters} />}
+          {!isSearching && (
+              <div className="flex gap-1 pt-2">
+                  {VIEWS.map(({ id, label }) => {
+                      const count = id === 'archived' ? archived.length : id === 'trash' ? trashed.length : 0;
+                      return (
+                          <button
+                            key={id}
+                            onClick={() => { playUISound('click'); setView(id); setOptionsId(null); setConfirmingPurge(null); }}
+                            className={`flex-1 px-2 py-1 rounded-md text-[11px] font-medium transition-colors ${view === id ? 'bg-white/10 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                          >
+                              {label}{count > 0 ? ` · ${count}` : ''}
+                          </button>
+                      );
+                  })}
+              </div>
+          )}
+      </div>
+
       {/* Session List */}
       <div className="flex-1 overflow-y-auto p-3 space-y-1 custom-scrollbar">
-          <div className="px-3 py-2 text-[10px] font-bold text-gray-500 uppercase tracking-wider">
-              Recent Activity
-          </div>
-          
-          {sessions.map((session, index) => (
-              <div 
-                key={session.id}
-                onClick={() => onSessionSelect(session.id)}
-                className={`
-                    group relative flex items-center gap-3 px-3 py-3 rounded-lg cursor-pointer transition-all duration-200
-                    ${session.id === currentSessionId 
-                        ? 'bg-lynq-surfaceHover text-white shadow-sm ring-1 ring-white/5' 
-                        : 'text-lynq-textMuted hover:bg-white/5 hover:text-lynq-text'
-                    }
-                    animate-slide-up
-                `}
-                style={{ animationDelay: `${index * 50}ms` }}
-              >
-                  <MessageSquare size={16} className={session.id === currentSessionId ? 'text-lynq-accent' : 'text-gray-600'} />
-                  
-                  <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium truncate">{session.title}</p>
-                      <p className="text-[10px] opacity-50 truncate">
-                          {new Date(session.lastUpdated).toLocaleDateString()}
-                      </p>
+          {isSearching ? (
+              <>
+                  <div className="px-3 py-2 text-[10px] font-bold text-gray-500 uppercase tracking-wider">
+                      Results · {results.length}
                   </div>
-
-                  {/* Delete Button (Visible on hover or active) */}
-                  {onDeleteSession && (
-                      <button 
-                        onClick={(e) => onDeleteSession(e, session.id)}
-                        className={`
-                            p-1.5 rounded-md text-gray-500 hover:text-red-400 hover:bg-red-500/10 transition-all opacity-0 group-hover:opacity-100
-                            ${session.id === currentSessionId ? 'opacity-100' : ''}
-                        `}
+                  <SearchResults results={results} onOpen={(result) => onOpenMessage(result.sessionId, result.message.id)} />
+              </>
+          ) : view === 'chats' ? (
+              groups.map(group => {
+                  const isCollapsed = collapsed.has(group.key);
+                  return (
+                      <div
+                        key={group.key}
+                        onDragOver={(e) => {
+                          if (!draggingId) return;
+                          e.preventDefault();
+                          setDropKey(group.key);
+                        }}
+                        onDrop={(e) => {
+                          e.preventDefault();
+                          const id = e.dataTransfer.getData(DRAG_TYPE);
+                          if (id) onUpdateSession(id, group.drop);
+                          setDraggingId(null);
+                          setDropKey(null);
+                        }}
+                        className={`rounded-xl transition-colors ${dropKey === group.key ? 'bg-lynq-accent/5 ring-1 ring-lynq-accent/30' : ''}`}
                       >
-                          <Trash2 size={14} />
-                      </button>
-                  )}
-              </div>
-          ))}
+                          <button
+                            onClick={() => toggleGroup(group.key)}
+                            className="w-full flex items-center gap-1.5 px-3 py-2 text-[10px] font-bold text-gray-500 uppercase tracking-wider hover:text-gray-300 transition-colors"
+                          >
+                              {group.key === PINNED_GROUP ? <Pin size={11} /> : group.key === UNFILED_GROUP ? null : <Folder size={11} />}
+                              <span className="truncate">{group.label}</span>
+                              <span className="font-normal opacity-60">{group.sessions.length}</span>
+                              <ChevronDown size={11} className={`ml-auto transition-transform ${isCollapsed ? '-rotate-90' : ''}`} />
+                          </button>
+                          {group.sessions.length === 0 && (
+                              <p className="px-3 pb-2 text-[11px] text-gray-600">Drop a chat here to pin it.</p>
+                          )}
+                          {!isCollapsed && <div className="space-y-1">{group.sessions.map(renderSession)}</div>}
+                      </div>
+                  );
+              })
+          ) : view === 'archived' ? (
+              <>
+                  <div className="px-3 py-2 text-[10px] font-bold text-gray-500 uppercase tracking-wider">Archived</div>
+                  {archived.length === 0 && <p className="px-3 py-6 text-xs text-center text-gray-600">No archived chats.</p>}
+                  {archived.map(renderSession)}
+              </>
+          ) : (
+              <>
+                  <div className="flex items-center justify-between px-3 py-2">
+                      <span className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">Trash</span>
+                      {trashed.length > 0 && (confirmingPurge === ALL_TRASH ? (
+                          <div className="flex items-center gap-2 text-[10px]">
+                              <span className="text-red-300/90">Delete {trashed.length} for good?</span>
+                              <button
+                                onClick={() => { playUISound('click'); setConfirmingPurge(null); onEmptyTrash(); }}
+                                className="font-semibold text-red-400 hover:text-red-300 transition-colors"
+                              >
+                                  Delete
+                              </button>
+                              <button
+                                onClick={() => { playUISound('click'); setConfirmingPurge(null); }}
+                                className="text-gray-500 hover:text-gray-300 transition-colors"
+                              >
+                                  Cancel
+                              </button>
+                          </div>
+                      ) : (
+                          <button
+                            onClick={() => { playUISound('click'); setConfirmingPurge(ALL_TRASH); }}
+                            className="text-[10px] text-gray-500 hover:text-red-400 transition-colors"
+                          >
+                              Empty trash
+                          </button>
+                      ))}
+                  </div>
+                  <p className="px-3 pb-2 text-[11px] text-gray-600">Chats are deleted for good {TRASH_RETENTION_DAYS} days after they were trashed.</p>
+                  {trashed.length === 0 && <p className="px-3 py-6 text-xs text-center text-gray-600">The trash is empty.</p>}
+                  {trashed.map(session => (
+                      <div key={session.id} className="group flex items-center gap-3 px-3 py-3 rounded-lg text-lynq-textMuted hover:bg-white/5 animate-fade-in">
+                          <Trash2 size={14} className="text-gray-600 shrink-0" />
+                          <div className="flex-1 min-w-0">
+                              <p className="text-sm font-medium truncate">{session.title}</p>
+                              <p className="text-[10px] opacity-50">{trashDaysLeft(session)} days left</p>
+                          </div>
+                          {confirmingPurge === session.id ? (
+                              <>
+                                  <button
+                                    onClick={() => { playUISound('click'); setConfirmingPurge(null); onPurgeSession(session.id); }}
+                                    className="px-2 py-1 rounded-md text-[10px] font-semibold text-red-400 bg-red-500/10 hover:bg-red-500/20 transition-colors"
+                                  >
+                                      Delete forever
+                                  </button>
+                                  <button
+                                    onClick={() => { playUISound('click'); setConfirmingPurge(null); }}
+                                    className="px-1.5 py-1 text-[10px] text-gray-500 hover:text-gray-300 transition-colors"
+                                  >
+                                      Cancel
+                                  </button>
+                              </>
+                          ) : (
+                              <>
+                                  <button
+                                    onClick={() => { playUISound('click'); onRestoreSession(session.id); }}
+                                    title="Restore"
+                                    className="p-1.5 rounded-md text-gray-500 hover:text-lynq-accent hover:bg-white/5 transition-colors"
+                                  >
+                                      <RotateCcw size={13} />
+                                  </button>
+                                  <button
+                                    onClick={() => { playUISound('click'); setConfirmingPurge(session.id); }}
+                                    title="Delete forever"
+                                    className="p-1.5 rounded-md text-gray-500 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                                  >
+                                      <X size={14} />
+                                  </button>
+                              </>
+                          )}
+                      </div>
+                  ))}
+              </>
+          )}
       </div>
 
       {/* Footer */}
       <div className="p-4 border-t border-lynq-border mt-auto bg-black/20">
-          <div className="flex items-center gap-3 p-2 rounded-lg hover:bg-white/5 transition-colors cursor-pointer group">
+          <button 
+            onClick={onOpenModelSettings}
+            className="w-full flex items-center gap-3 px-2 py-2 mb-1 rounded-lg text-xs font-medium text-gray-400 hover:text-white hover:bg-white/5 transition-colors group"
+          >
+              <Cpu size={14} className="text-gray-500 group-hover:text-lynq-accent transition-colors" />
+              <span>Models</span>
+          </button>
+          <button 
+            onClick={onOpenUsage}
+            className="w-full flex items-center gap-3 px-2 py-2 mb-1 rounded-lg text-xs font-medium text-gray-400 hover:text-white hover:bg-white/5 transition-colors group"
+          >
+              <BarChart3 size={14} className="text-gray-500 group-hover:text-lynq-accent transition-colors" />
+              <span>Usage</span>
+          </button>
+          <button 
+            onClick={() => onOpenTransfer(currentSessionId)}
+            className="w-full flex items-center gap-3 px-2 py-2 mb-1 rounded-lg text-xs font-medium text-gray-400 hover:text-white hover:bg-white/5 transition-colors group"
+          >
+              <ArrowDownUp size={14} className="text-gray-500 group-hover:text-lynq-accent transition-colors" />
+              <span>Export & Import</span>
+          </button>
+          <div onClick={onOpenPersonas} className="flex items-center gap-3 p-2 rounded-lg hover:bg-white/5 transition-colors cursor-pointer group">
               <div className="w-9 h-9 rounded-full bg-gradient-to-tr from-gray-700 to-gray-600 flex items-center justify-center text-xs font-bold text-white ring-2 ring-transparent group-hover:ring-lynq-accent/50 transition-all">
                   US
               </div>
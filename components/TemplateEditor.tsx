@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { PromptTemplate } from '../types';
+import { findPlaceholders, templateNameError } from '../utils/slashCommands';
+import { X, Plus, Trash2, Check, FileText } from 'lucide-react';
+import { playUISound } from '../utils/sound';
+
+interface TemplateEditorProps {
+  templates: PromptTemplate[];
+  onSave: (template: PromptTemplate) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-black/30 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-100 placeholder:text-gray-600 focus:outline-none focus:border-lynq-accent/50";
+const labelClass = "block text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1.5";
+
+const newTemplate = (templates: PromptTemplate[]): PromptTemplate => {
+  let name = 'template';
+  for (let i = 2; templates.some(t => t.name === name); i++) name = `template-${i}`;
+  return { id: Date.now().toString(), name, body: '' };
+};
+
+export const TemplateEditor: React.FC<TemplateEditorProps> = ({ templates, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<PromptTemplate | null>(() => templates[0] || null);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const nameError = draft ? templateNameError(draft.name, templates, draft.id) : null;
+  const variables = draft ? Array.from(new Set(findPlaceholders(draft.body).map(p => p.name))) : [];
+
+  const select = (template: PromptTemplate) => {
+    playUISound('click');
+    setDraft(template);
+    setIsDirty(false);
+  };
+
+  const update = (changes: Partial<PromptTemplate>) => {
+    setDraft(prev => prev && { ...prev, ...changes });
+    setIsDirty(true);
+  };
+
+  const add = () => {
+    playUISound('click');
+    setDraft(newTemplate(templates));
+    setIsDirty(true);
+  };
+
+  const save = () => {
+    if (!draft || nameError || !draft.body.trim()) return;
+    playUISound('click');
+    onSave({ ...draft, description: draft.description?.trim() || undefined });
+    setIsDirty(false);
+  };
+
+  const remove = () => {
+    if (!draft) return;
+    playUISound('click');
+    onDelete(draft.id);
+    setDraft(templates.find(t => t.id !== draft.id) || null);
+    setIsDirty(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/70 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl h-[70vh] bg-[#121418]/95 border border-white/10 rounded-2xl shadow-glass flex flex-col overflow-hidden animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-white/5">
+          <div className="flex items-center gap-2">
+            <FileText size={18} className="text-lynq-accent" />
+            <h2 className="text-sm font-semibold text-white">Prompt Templates</h2>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-lg text-gray-500 hover:text-white hover:bg-white/5 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Template List */}
+          <div className="w-52 border-r border-white/5 flex flex-col">
+            <div className="flex-1 overflow-y-auto p-2 space-y-1 custom-scrollbar">
+              {templates.length === 0 && (
+                <p className="px-3 py-2 text-xs text-gray-600">No templates yet.</p>
+              )}
+              {templates.map(template => (
+                <button
+                  key={template.id}
+                  onClick={() => select(template)}
+                  className={`w-full text-left px-3 py-2.5 rounded-lg text-sm font-mono transition-colors truncate ${draft?.id === template.id ? 'bg-lynq-accent/10 text-lynq-accent' : 'text-gray-300 hover:bg-white/5'}`}
+                >
+                  /{template.name}
+                </button>
+              ))}
+            </div>
+            <div className="p-2 border-t border-white/5">
+              <button
+                onClick={add}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-xs font-medium text-lynq-accent bg-lynq-accent/10 hover:bg-lynq-accent/20 border border-lynq-accent/20 transition-colors"
+              >
+                <Plus size={14} />
+                <span>New Template</span>
+              </button>
+            </div>
+          </div>
+
+          {/* Editor */}
+          {draft ? (
+            <div className="flex-1 flex flex-col min-w-0">
+              <div className="flex-1 overflow-y-auto p-5 space-y-4 custom-scrollbar">
+                <div>
+                  <label className={labelClass}>Command</label>
+                  <div className="flex items-center gap-1">
+                    <span className="text-sm font-mono text-gray-500">/</span>
+                    <input className={`${inputClass} font-mono`} value={draft.name} onChange={(e) => update({ name: e.target.value.toLowerCase() })} />
+                  </div>
+                  {nameError && <p className="mt-1.5 text-[11px] text-red-300/90">{nameError}</p>}
+                </div>
+
+                <div>
+                  <label className={labelClass}>Description</label>
+                  <input className={inputClass} value={draft.description || ''} placeholder="Shown in the command menu" onChange={(e) => update({ description: e.target.value })} />
+                </div>
+
+                <div>
+                  <label className={labelClass}>Prompt</label>
+                  <textarea
+                    className={`${inputClass} font-mono text-xs min-h-[160px] resize-y`}
+                    value={draft.body}
+                    placeholder="Write a polite email to {{recipient}} about {{topic}}."
+                    onChange={(e) => update({ body: e.target.value })}
+                  />
+                  <p className="mt-1.5 text-[11px] text-gray-500">
+                    Wrap the parts you fill in each time in double braces. After picking the template, Tab jumps between them.
+                  </p>
+                  {variables.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5 mt-2">
+                      {variables.map(name => (
+                        <span key={name} className="px-2 py-0.5 rounded-md bg-lynq-accent/10 border border-lynq-accent/20 text-[11px] font-mono text-lynq-accent">{name}</span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* Actions */}
+              <div className="flex items-center gap-2 px-5 py-3 border-t border-white/5 bg-black/20">
+                <div className="flex-1" />
+                {templates.some(t => t.id === draft.id) && (
+                  <button
+                    onClick={remove}
+                    className="p-2 rounded-lg text-gray-400 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                    title="Delete"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                )}
+                <button
+                  onClick={save}
+                  disabled={!isDirty || !!nameError || !draft.body.trim()}
+                  className="flex items-center gap-1.5 px-4 py-1.5 rounded-lg text-xs font-semibold bg-lynq-accent text-lynq-dark hover:bg-lynq-accentHover disabled:opacity-40 transition-colors"
+                >
+                  <Check size={14} />
+                  <span>Save</span>
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 flex items-center justify-center p-8 text-center text-xs text-gray-500">
+              Templates are saved prompts you insert by typing / and their name.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { ToolStep } from '../types';
+import { getTool } from '../services/tools/registry';
+import { ChevronRight, Wrench, Loader2, AlertTriangle } from 'lucide-react';
+
+interface ToolStepsProps {
+  steps: ToolStep[];
+  isStreaming?: boolean;
+}
+
+const formatJson = (value: unknown): string => {
+  try {
+    return JSON.stringify(value, null, 2);
+  } catch {
+    return String(value);
+  }
+};
+
+const ToolStepItem: React.FC<{ step: ToolStep }> = ({ step }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const label = getTool(step.name)?.label || step.name;
+
+  return (
+    <div className="rounded-lg border border-white/5 bg-black/20 overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-xs text-gray-400 hover:text-gray-200 hover:bg-white/5 transition-colors"
+      >
+        <ChevronRight size={12} className={`transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+        {step.error
+          ? <AlertTriangle size={12} className="text-red-400" />
+          : <Wrench size={12} className="text-lynq-accent/80" />
+        }
+        <span className="font-medium">{label}</span>
+        <span className="truncate font-mono text-gray-600">{Object.values(step.args || {}).map(v => String(v)).join(', ')}</span>
+        {step.durationMs !== undefined && (
+          <span className="ml-auto font-mono text-gray-600 shrink-0">{step.durationMs}ms</span>
+        )}
+      </button>
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-2 text-[11px] font-mono">
+          <div>
+            <p className="text-[9px] uppercase tracking-wider text-gray-600 mb-1">Arguments</p>
+            <pre className="whitespace-pre-wrap break-words text-gray-400">{formatJson(step.args)}</pre>
+          </div>
+          <div>
+            <p className="text-[9px] uppercase tracking-wider text-gray-600 mb-1">{step.error ? 'Error' : 'Result'}</p>
+            <pre className={`whitespace-pre-wrap break-words max-h-60 overflow-y-auto custom-scrollbar ${step.error ? 'text-red-300' : 'text-gray-300'}`}>
+              {step.error || formatJson(step.result)}
+            </pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Tool calls made while answering, collapsed to one line each
+export const ToolSteps: React.FC<ToolStepsProps> = ({ steps, isStreaming }) => {
+  return (
+    <div className="flex flex-col gap-1.5 mb-3">
+      {steps.map(step => <ToolStepItem key={step.id} step={step} />)}
+      {isStreaming && (
+        <div className="flex items-center gap-2 px-3 py-1 text-[11px] text-gray-500">
+          <Loader2 size={11} className="animate-spin" />
+          <span>Working…</span>
+        </div>
+      )}
+    </div>
+  );
+};
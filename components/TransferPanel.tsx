@@ -0,0 +1,148 @@
+import React, { useRef, useState } from 'react';
+import { ChatSession } from '../types';
+import { ExportFormat, exportSessions } from '../services/exporters';
+import { parseImportFile } from '../services/importers';
+import { X, ArrowDownUp, Download, Upload, FileText, Globe, Braces, Loader2 } from 'lucide-react';
+import { playUISound } from '../utils/sound';
+
+interface TransferPanelProps {
+  sessions: ChatSession[];
+  sessionId: string; // Chat the "This chat" scope refers to
+  onImport: (sessions: ChatSession[]) => void;
+  onClose: () => void;
+}
+
+type ExportScope = 'session' | 'all';
+
+const FORMATS: { id: ExportFormat; label: string; description: string; icon: React.ReactNode }[] = [
+  { id: 'markdown', label: 'Markdown', description: 'Text of the visible branch', icon: <FileText size={16} /> },
+  { id: 'html', label: 'HTML', description: 'One page with images, video and audio', icon: <Globe size={16} /> },
+  { id: 'json', label: 'JSON', description: 'Every branch, can be imported again', icon: <Braces size={16} /> }
+];
+
+const labelClass = "block text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-2";
+
+export const TransferPanel: React.FC<TransferPanelProps> = ({ sessions, sessionId, onImport, onClose }) => {
+  const [scope, setScope] = useState<ExportScope>('session');
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const session = sessions.find(s => s.id === sessionId);
+  const selected = scope === 'session' && session ? [session] : sessions;
+
+  const handleExport = async (format: ExportFormat) => {
+    playUISound('click');
+    setExporting(format);
+    setStatus(null);
+    try {
+      await exportSessions(selected, format);
+    } catch (error) {
+      console.error("Export failed", error);
+      setStatus({ text: 'Export failed. See the console for details.', isError: true });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (error) {
+      console.error("Import failed", error);
+      setStatus({ text: `Couldn't read ${file.name}. Choose the file again.`, isError: true });
+      return;
+    }
+    const result = parseImportFile(text);
+    if (result.ok === false) {
+      setStatus({ text: result.error.message, isError: true });
+      return;
+    }
+    onImport(result.value);
+    setStatus({ text: `Imported ${result.value.length} chat${result.value.length === 1 ? '' : 's'}.`, isError: false });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/70 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-[#121418]/95 border border-white/10 rounded-2xl shadow-glass flex flex-col overflow-hidden animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-white/5">
+          <div className="flex items-center gap-2">
+            <ArrowDownUp size={18} className="text-lynq-accent" />
+            <h2 className="text-sm font-semibold text-white">Export & Import</h2>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-lg text-gray-500 hover:text-white hover:bg-white/5 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-6">
+          {/* Export */}
+          <div>
+            <label className={labelClass}>Export</label>
+            <div className="flex gap-1 p-1 mb-3 rounded-lg bg-black/30 border border-white/5">
+              {(['session', 'all'] as ExportScope[]).map(id => (
+                <button
+                  key={id}
+                  onClick={() => { playUISound('click'); setScope(id); }}
+                  disabled={id === 'session' && !session}
+                  className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium truncate transition-colors disabled:opacity-40 ${scope === id ? 'bg-white/10 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                >
+                  {id === 'session' ? `This chat${session ? ` · ${session.title}` : ''}` : `All chats · ${sessions.length}`}
+                </button>
+              ))}
+            </div>
+            <div className="space-y-1.5">
+              {FORMATS.map(format => (
+                <button
+                  key={format.id}
+                  onClick={() => handleExport(format.id)}
+                  disabled={exporting !== null}
+                  className="w-full flex items-center gap-3 px-3 py-2.5 rounded-lg border border-white/5 hover:border-lynq-accent/30 hover:bg-white/5 text-left transition-colors disabled:opacity-50 group"
+                >
+                  <span className="text-gray-500 group-hover:text-lynq-accent transition-colors">{format.icon}</span>
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-sm text-gray-200">{format.label}</span>
+                    <span className="block text-[11px] text-gray-500">{format.description}</span>
+                  </span>
+                  {exporting === format.id
+                    ? <Loader2 size={14} className="text-lynq-accent animate-spin" />
+                    : <Download size={14} className="text-gray-600 group-hover:text-gray-300" />
+                  }
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Import */}
+          <div>
+            <label className={labelClass}>Import</label>
+            <button
+              onClick={() => { playUISound('click'); fileInputRef.current?.click(); }}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2.5 rounded-lg text-xs font-medium text-lynq-accent bg-lynq-accent/10 hover:bg-lynq-accent/20 border border-lynq-accent/20 transition-colors"
+            >
+              <Upload size={14} />
+              <span>Choose a file</span>
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+            <p className="mt-2 text-[11px] text-gray-500">
+              A LYNQ JSON export, or conversations.json from a ChatGPT data export. Imported chats are added alongside the ones you have.
+            </p>
+          </div>
+
+          {status && (
+            <p className={`text-xs ${status.isError ? 'text-red-300/90' : 'text-green-400/90'}`}>{status.text}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import React, { useMemo, useState } from 'react';
+import { ChatSession } from '../types';
+import { DEFAULT_PRICES, ModelPrice, PriceTable, UsageTotals, buildUsageReport, formatCost, formatTokens, unpricedModels } from '../services/usage';
+import { X, BarChart3, RotateCcw } from 'lucide-react';
+import { playUISound } from '../utils/sound';
+
+interface UsagePanelProps {
+  sessions: ChatSession[];
+  prices: PriceTable;
+  onPricesChange: (prices: PriceTable) => void;
+  onClose: () => void;
+}
+
+type UsageTab = 'sessions' | 'modes' | 'days' | 'prices';
+
+const TABS: { id: UsageTab; label: string }[] = [
+  { id: 'sessions', label: 'Sessions' },
+  { id: 'modes', label: 'Modes' },
+  { id: 'days', label: 'Days' },
+  { id: 'prices', label: 'Prices' }
+];
+
+const MODE_LABELS: Record<string, string> = {
+  FAST: 'Fast',
+  SMART: 'Smart',
+  CREATIVE: 'Creative',
+  VOICE: 'Voice',
+  VIDEO: 'Video',
+  background: 'Background (summaries)',
+  unknown: 'Unknown'
+};
+
+const inputClass = "w-20 bg-black/30 border border-white/10 rounded-md px-2 py-1 text-xs text-gray-100 font-mono focus:outline-none focus:border-lynq-accent/50";
+
+const TotalsTable: React.FC<{ rows: { key: string; label: string; totals: UsageTotals }[] }> = ({ rows }) => {
+  if (rows.length === 0) {
+    return <p className="text-xs text-gray-500 text-center py-10">No usage recorded yet.</p>;
+  }
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-[10px] text-gray-500 uppercase tracking-wider text-right">
+          <th className="text-left font-bold pb-2">Name</th>
+          <th className="font-bold pb-2">Calls</th>
+          <th className="font-bold pb-2">Input</th>
+          <th className="font-bold pb-2">Output</th>
+          <th className="font-bold pb-2">Thinking</th>
+          <th className="font-bold pb-2">Cost</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(({ key, label, totals }) => (
+          <tr key={key} className="border-t border-white/5 text-right text-gray-300 font-mono">
+            <td className="text-left py-2 pr-3 font-sans text-gray-200 truncate max-w-[220px]">{label}</td>
+            <td className="py-2">{totals.calls}</td>
+            <td className="py-2">{formatTokens(totals.inputTokens)}</td>
+            <td className="py-2">{formatTokens(totals.outputTokens)}</td>
+            <td className="py-2">{formatTokens(totals.thinkingTokens)}</td>
+            <td className="py-2 text-lynq-accent">{formatCost(totals.cost)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ sessions, prices, onPricesChange, onClose }) => {
+  const [tab, setTab] = useState<UsageTab>('sessions');
+  const report = useMemo(() => buildUsageReport(sessions, prices), [sessions, prices]);
+  const missing = useMemo(() => unpricedModels(sessions, prices), [sessions, prices]);
+
+  const priceRows = [...Object.keys(prices), ...missing];
+
+  const updatePrice = (model: string, changes: Partial<ModelPrice>) => {
+    const current = prices[model] || { inputPerMillion: 0, outputPerMillion: 0 };
+    onPricesChange({ ...prices, [model]: { ...current, ...changes } });
+  };
+
+  const rows = tab === 'sessions'
+    ? report.bySession.map(s => ({ key: s.id, label: s.title, totals: s.totals }))
+    : tab === 'modes'
+      ? report.byMode.map(m => ({ key: m.mode, label: MODE_LABELS[m.mode] || m.mode, totals: m.totals }))
+      : report.byDay.map(d => ({ key: d.day, label: d.day, totals: d.totals }));
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/70 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[85vh] bg-[#121418]/95 border border-white/10 rounded-2xl shadow-glass flex flex-col overflow-hidden animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-white/5">
+          <div className="flex items-center gap-2">
+            <BarChart3 size={18} className="text-lynq-accent" />
+            <h2 className="text-sm font-semibold text-white">Usage</h2>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-lg text-gray-500 hover:text-white hover:bg-white/5 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 px-5 pt-4">
+          {[
+            { label: 'Total Cost', value: formatCost(report.total.cost) },
+            { label: 'Input Tokens', value: formatTokens(report.total.inputTokens) },
+            { label: 'Output Tokens', value: formatTokens(report.total.outputTokens) },
+            { label: 'Thinking Tokens', value: formatTokens(report.total.thinkingTokens) }
+          ].map(stat => (
+            <div key={stat.label} className="rounded-xl bg-white/[0.02] border border-white/5 px-3 py-2.5">
+              <p className="text-[10px] text-gray-500 uppercase tracking-wider">{stat.label}</p>
+              <p className="text-lg font-semibold text-white font-mono">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {/* Tabs */}
+        <div className="flex gap-1 px-5 pt-4">
+          {TABS.map(t => (
+            <button
+              key={t.id}
+              onClick={() => { playUISound('click'); setTab(t.id); }}
+              className={`px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${tab === t.id ? 'bg-white/10 text-lynq-accent' : 'text-gray-400 hover:text-white hover:bg-white/5'}`}
+            >
+              {t.label}
+              {t.id === 'prices' && missing.length > 0 && <span className="ml-1.5 text-red-400">•</span>}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 custom-scrollbar">
+          {tab !== 'prices' ? (
+            <TotalsTable rows={rows} />
+          ) : (
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <p className="text-[11px] text-gray-500">USD per 1M tokens. Thinking tokens bill at the output rate. Models without a price count as free.</p>
+                <button
+                  onClick={() => { playUISound('click'); onPricesChange({ ...DEFAULT_PRICES }); }}
+                  className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-[11px] text-gray-400 hover:text-white hover:bg-white/5 transition-colors shrink-0"
+                >
+                  <RotateCcw size={12} />
+                  <span>Reset</span>
+                </button>
+              </div>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-[10px] text-gray-500 uppercase tracking-wider text-left">
+                    <th className="font-bold pb-2">Model</th>
+                    <th className="font-bold pb-2">Input</th>
+                    <th className="font-bold pb-2">Output</th>
+                    <th className="font-bold pb-2">Per Video Sec</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {priceRows.map(model => {
+                    const price = prices[model];
+                    return (
+                      <tr key={model} className="border-t border-white/5">
+                        <td className={`py-2 pr-3 font-mono ${price ? 'text-gray-300' : 'text-red-300'}`}>{model}</td>
+                        <td className="py-2">
+                          <input type="number" min={0} step="0.01" className={inputClass} value={price?.inputPerMillion ?? 0} onChange={(e) => updatePrice(model, { inputPerMillion: Number(e.target.value) || 0 })} />
+                        </td>
+                        <td className="py-2">
+                          <input type="number" min={0} step="0.01" className={inputClass} value={price?.outputPerMillion ?? 0} onChange={(e) => updatePrice(model, { outputPerMillion: Number(e.target.value) || 0 })} />
+                        </td>
+                        <td className="py-2">
+                          <input type="number" min={0} step="0.01" className={inputClass} value={price?.perVideoSecond ?? 0} onChange={(e) => updatePrice(model, { perVideoSecond: Number(e.target.value) || 0 })} />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
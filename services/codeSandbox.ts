@@ -0,0 +1,110 @@
+// Runs JavaScript and Python snippets off the main thread. Every run gets a fresh
+// worker with the network APIs removed; it is terminated on timeout or when aborted.
+
+export type SandboxLanguage = 'javascript' | 'python';
+
+export interface SandboxLimits {
+    timeoutMs: number; // Wall-clock time for the code itself, runtime loading excluded
+    memoryMb: number; // Best effort, see checkMemory in sandboxWorker.ts
+    maxOutputChars: number;
+}
+
+export interface SandboxResult {
+    language: SandboxLanguage;
+    stdout: string;
+    stderr: string;
+    result?: string; // Value of the last expression, formatted
+    error?: string;
+    timedOut?: boolean;
+    durationMs: number;
+}
+
+// Messages posted by sandboxWorker.ts
+export type SandboxResponse =
+    | { type: 'started'; text?: undefined; result?: undefined; error?: undefined }
+    | { type: 'stdout' | 'stderr'; text: string; result?: undefined; error?: undefined }
+    | { type: 'done'; text?: undefined; result?: string; error?: string };
+
+export const DEFAULT_SANDBOX_LIMITS: SandboxLimits = {
+    timeoutMs: 10000,
+    memoryMb: 256,
+    maxOutputChars: 20000
+};
+
+// Pyodide can take a while to compile on a cold cache
+const RUNTIME_LOAD_TIMEOUT_MS = 60000;
+
+const LANGUAGE_ALIASES: Record<string, SandboxLanguage> = {
+    js: 'javascript',
+    javascript: 'javascript',
+    mjs: 'javascript',
+    py: 'python',
+    python: 'python',
+    python3: 'python'
+};
+
+// Fence label to runnable language, undefined when we can't run it
+export const sandboxLanguageFor = (label?: string): SandboxLanguage | undefined => {
+    return label ? LANGUAGE_ALIASES[label.toLowerCase()] : undefined;
+};
+
+export interface RunCodeOptions {
+    limits?: Partial<SandboxLimits>;
+    signal?: AbortSignal;
+    onOutput?: (stream: 'stdout' | 'stderr', text: string) => void;
+}
+
+// Never rejects: failures, timeouts and aborts are reported on the result
+export const runCode = (language: SandboxLanguage, code: string, options: RunCodeOptions = {}): Promise<SandboxResult> => {
+    const limits = { ...DEFAULT_SANDBOX_LIMITS, ...options.limits };
+    const { signal, onOutput } = options;
+    const result: SandboxResult = { language, stdout: '', stderr: '', durationMs: 0 };
+    let started = Date.now();
+
+    return new Promise(resolve => {
+        if (signal?.aborted) {
+            resolve({ ...result, error: 'Stopped' });
+            return;
+        }
+
+        const worker = new Worker(new URL('./sandboxWorker.ts', import.meta.url), { type: 'module' });
+        let timer = setTimeout(() => finish({ error: `Loading the ${language} runtime timed out`, timedOut: true }), RUNTIME_LOAD_TIMEOUT_MS);
+
+        const onAbort = () => finish({ error: 'Stopped' });
+
+        const finish = (outcome: Partial<SandboxResult>) => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+            worker.terminate();
+            resolve({ ...result, ...outcome, durationMs: Date.now() - started });
+        };
+
+        signal?.addEventListener('abort', onAbort);
+
+        worker.onmessage = (event: MessageEvent<SandboxResponse>) => {
+            const message = event.data;
+            switch (message.type) {
+                case 'started':
+                    clearTimeout(timer);
+                    started = Date.now();
+                    timer = setTimeout(() => finish({ error: `Timed out after ${limits.timeoutMs / 1000}s`, timedOut: true }), limits.timeoutMs);
+                    break;
+                case 'stdout':
+                case 'stderr':
+                    result[message.type] += message.text;
+                    onOutput?.(message.type, message.text);
+                    break;
+                case 'done':
+                    finish({ result: message.result, error: message.error });
+                    break;
+            }
+        };
+
+        worker.onerror = (event) => {
+            event.preventDefault();
+            finish({ error: event.message || `The ${language} sandbox failed to start` });
+        };
+
+        worker.postMessage({ language, code, limits });
+    });
+};
@@ -0,0 +1,130 @@
+import { AppMode, AttachmentType, ContextDigest, Message, MessageRole } from '../types';
+import { ChatPart, ChatTurn } from './providers/types';
+
+// Rough heuristics: ~4 chars per token for text, flat cost for images
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKEN_COST = 258;
+
+// How much prior conversation (in tokens) each mode may send along with the prompt
+export const CONTEXT_TOKEN_BUDGETS: Record<AppMode, number> = {
+    [AppMode.FAST]: 4000,
+    [AppMode.SMART]: 16000,
+    [AppMode.CREATIVE]: 32000,
+    [AppMode.VOICE]: 2000,
+    [AppMode.VIDEO]: 0,
+    [AppMode.RESEARCH]: 8000
+};
+
+export const estimateTextTokens = (text: string): number => {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+};
+
+// Splits a data URL into the inlineData shape expected by the API
+const dataUrlToInlineData = (dataUrl: string, fallbackMime?: string): ChatPart | null => {
+    const match = /^data:([^;,]*);base64,(.*)$/.exec(dataUrl);
+    if (!match) return null;
+    // The data URL knows what it holds; the attachment's mimeType only fills in when it's missing
+    const mimeType = match[1] || fallbackMime;
+    if (!mimeType) return null;
+    return { inlineData: { mimeType, data: match[2] } };
+};
+
+const messageToParts = (message: Message): ChatPart[] => {
+    const parts: ChatPart[] = [];
+
+    message.attachments?.forEach(att => {
+        // A generated report is already the message's content
+        if (message.role === MessageRole.MODEL && att.type === AttachmentType.DOCUMENT) return;
+        // User uploads carry base64, model-generated images carry a data URL
+        const source = att.base64 || (att.url.startsWith('data:') ? att.url : '');
+        const inline = source ? dataUrlToInlineData(source, att.mimeType) : null;
+        if (inline) {
+            parts.push(inline);
+        } else if (att.type === AttachmentType.VIDEO) {
+            parts.push({ text: '[Generated video]' });
+        }
+    });
+
+    if (message.content) {
+        parts.push({ text: message.content });
+    }
+    return parts;
+};
+
+const estimatePartTokens = (part: ChatPart): number => {
+    if (part.text) return estimateTextTokens(part.text);
+    if (part.inlineData?.mimeType?.startsWith('image/')) return IMAGE_TOKEN_COST;
+    // Documents: base64 expands bytes by 4/3, assume text-like density
+    return Math.ceil((part.inlineData?.data?.length || 0) * 0.75 / CHARS_PER_TOKEN);
+};
+
+export const estimateMessageTokens = (message: Message): number => {
+    return messageToParts(message).reduce((sum, part) => sum + estimatePartTokens(part), 0);
+};
+
+export interface ConversationContext {
+    contents: ChatTurn[];
+    // Turns after the digest that did not fit the budget and should be summarized
+    overflow: Message[];
+}
+
+/**
+ * Builds the multi-turn `contents` for a request. Walks the history newest-first,
+ * keeping turns while they fit into the mode budget. Turns already folded into the
+ * session digest are skipped; older turns that don't fit are returned as overflow.
+ */
+export const buildConversationContext = (
+    history: Message[],
+    currentParts: ChatPart[],
+    mode: AppMode,
+    digest?: ContextDigest
+): ConversationContext => {
+    let startIndex = 0;
+    if (digest) {
+        const coveredIndex = history.findIndex(m => m.id === digest.coveredUntilId);
+        if (coveredIndex !== -1) startIndex = coveredIndex + 1;
+    }
+    const candidates = history.slice(startIndex);
+
+    const promptTokens = currentParts.reduce((sum, part) => sum + estimatePartTokens(part), 0);
+    let remaining = CONTEXT_TOKEN_BUDGETS[mode] - promptTokens;
+
+    let firstIncluded = candidates.length;
+    for (let i = candidates.length - 1; i >= 0; i--) {
+        const cost = estimateMessageTokens(candidates[i]);
+        if (cost > remaining) break;
+        remaining -= cost;
+        firstIncluded = i;
+    }
+
+    // The API expects the conversation to open with a user turn
+    while (firstIncluded < candidates.length && candidates[firstIncluded].role !== MessageRole.USER) {
+        firstIncluded++;
+    }
+
+    const contents: ChatTurn[] = [];
+    candidates.slice(firstIncluded).forEach(m => {
+        const parts = messageToParts(m);
+        if (parts.length > 0) {
+            contents.push({ role: m.role, parts });
+        }
+    });
+    contents.push({ role: 'user', parts: currentParts });
+
+    return {
+        contents,
+        overflow: candidates.slice(0, firstIncluded)
+    };
+};
+
+// Flattens turns into a plain transcript for the summarizer
+export const formatTranscript = (messages: Message[]): string => {
+    return messages
+        .filter(m => m.content || m.attachments?.length)
+        .map(m => {
+            const speaker = m.role === MessageRole.USER ? 'User' : 'LYNQ';
+            const files = m.attachments?.map(a => `[${a.type}${a.name ? `: ${a.name}` : ''}]`).join(' ') || '';
+            return `${speaker}: ${files ? files + ' ' : ''}${m.content}`;
+        })
+        .join('\n');
+};
@@ -0,0 +1,184 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import { Attachment, AttachmentType, ChatSession, Message, MessageRole } from '../types';
+import { getActivePath } from '../utils/messageTree';
+import { insertCitationMarkers } from '../utils/citations';
+import { readAudioData, readDataUrl } from './storage/media';
+
+// Conversation exports. Markdown and HTML hold the branch on screen, JSON the whole
+// tree so it can be imported again; HTML and JSON carry their media as data URLs.
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+
+export const SESSION_FILE_FORMAT = 'lynq-sessions';
+export const SESSION_FILE_VERSION = 1;
+
+export interface SessionFile {
+    format: typeof SESSION_FILE_FORMAT;
+    version: number;
+    exportedAt: number;
+    sessions: ChatSession[];
+}
+
+const EXTENSIONS: Record<ExportFormat, string> = { markdown: 'md', html: 'html', json: 'json' };
+const MIME_TYPES: Record<ExportFormat, string> = { markdown: 'text/markdown', html: 'text/html', json: 'application/json' };
+
+// Voice-overs are raw 16-bit mono PCM at 24kHz, see decodeAudioData in App
+const PCM_SAMPLE_RATE = 24000;
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 50) || 'chat';
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const speaker = (message: Message) => message.role === MessageRole.USER ? 'You' : 'LYNQ';
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Object URLs die with the page; one that no longer resolves is dropped
+const inlineAttachment = async (att: Attachment): Promise<Attachment> => ({
+    ...att,
+    url: (await readDataUrl(att.url)) || '',
+    base64: await readDataUrl(att.base64)
+});
+
+const inlineMedia = async (session: ChatSession): Promise<ChatSession> => ({
+    ...session,
+    messages: await Promise.all(session.messages.map(async message => ({
+        ...message,
+        attachments: message.attachments && await Promise.all(message.attachments.map(inlineAttachment)),
+        audioData: await readAudioData(message.audioData)
+    })))
+});
+
+const pcmToWavDataUrl = (base64: string): string => {
+    const pcm = atob(base64);
+    const header = new DataView(new ArrayBuffer(44));
+    const writeText = (offset: number, text: string) => text.split('').forEach((c, i) => header.setUint8(offset + i, c.charCodeAt(0)));
+    writeText(0, 'RIFF');
+    header.setUint32(4, 36 + pcm.length, true);
+    writeText(8, 'WAVE');
+    writeText(12, 'fmt ');
+    header.setUint32(16, 16, true);
+    header.setUint16(20, 1, true); // PCM
+    header.setUint16(22, 1, true); // Mono
+    header.setUint32(24, PCM_SAMPLE_RATE, true);
+    header.setUint32(28, PCM_SAMPLE_RATE * 2, true);
+    header.setUint16(32, 2, true);
+    header.setUint16(34, 16, true);
+    writeText(36, 'data');
+    header.setUint32(40, pcm.length, true);
+    const headerText = String.fromCharCode(...new Uint8Array(header.buffer));
+    return `data:audio/wav;base64,${btoa(headerText + pcm)}`;
+};
+
+const messageMarkdown = (message: Message): string => {
+    const lines = [`### ${speaker(message)}`, `_${formatTime(message.timestamp)}${message.modeUsed ? ` · ${message.modeUsed.toLowerCase()}` : ''}_`, ''];
+    const content = message.role === MessageRole.USER ? message.content : insertCitationMarkers(message.content, message.citations);
+    if (content) lines.push(content, '');
+    message.attachments?.forEach(att => lines.push(`> Attachment: ${att.name || att.type}${att.mimeType ? ` (${att.mimeType})` : ''}`));
+    if (message.attachments?.length) lines.push('');
+    if (message.groundingUrls?.length) {
+        lines.push('Sources:', '');
+        message.groundingUrls.forEach((source, i) => lines.push(`${i + 1}. [${source.title || source.uri}](${source.uri})`));
+        lines.push('');
+    }
+    return lines.join('\n');
+};
+
+const sessionMarkdown = (session: ChatSession): string => {
+    const path = getActivePath(session);
+    return [`# ${session.title}`, '', `_Last updated ${formatTime(session.lastUpdated)} · ${path.length} messages_`, '', ...path.map(messageMarkdown)].join('\n');
+};
+
+// Uploaded documents only have `base64`
+const attachmentHtml = (att: Attachment): string => {
+    const name = escapeHtml(att.name || att.type);
+    const src = escapeHtml(att.url || att.base64 || '');
+    if (!src) return `<p class="missing">${name} (no longer available)</p>`;
+    if (att.type === AttachmentType.IMAGE) return `<img src="${src}" alt="${name}">`;
+    if (att.type === AttachmentType.VIDEO) return `<video src="${src}" controls></video>`;
+    return `<a class="file" href="${src}" download="${name}">${name}</a>`;
+};
+
+type MarkdownRenderer = (markdown: string) => string;
+
+// The server renderer is only needed here, so it loads with the first HTML export rather than with the app
+const loadMarkdownRenderer = async (): Promise<MarkdownRenderer> => {
+    const { renderToStaticMarkup } = await import('react-dom/server');
+    return markdown => renderToStaticMarkup(React.createElement(ReactMarkdown, null, markdown));
+};
+
+const messageHtml = (message: Message, renderMarkdown: MarkdownRenderer): string => {
+    const content = message.role === MessageRole.USER ? message.content : insertCitationMarkers(message.content, message.citations);
+    const body = renderMarkdown(content);
+    const sources = message.groundingUrls?.length
+        ? `<ol class="sources">${message.groundingUrls.map(s => `<li><a href="${escapeHtml(s.uri)}">${escapeHtml(s.title || s.uri)}</a></li>`).join('')}</ol>`
+        : '';
+    return `<article class="${message.role}">
+<header>${speaker(message)} · ${escapeHtml(formatTime(message.timestamp))}${message.modeUsed ? ` · ${message.modeUsed.toLowerCase()}` : ''}</header>
+${message.attachments?.map(attachmentHtml).join('\n') || ''}
+${body}
+${message.audioData ? `<audio src="${pcmToWavDataUrl(message.audioData)}" controls></audio>` : ''}
+${sources}
+</article>`;
+};
+
+const sessionHtml = (session: ChatSession, renderMarkdown: MarkdownRenderer): string => `<section>
+<h1>${escapeHtml(session.title)}</h1>
+<p class="meta">Last updated ${escapeHtml(formatTime(session.lastUpdated))}</p>
+${getActivePath(session).map(message => messageHtml(message, renderMarkdown)).join('\n')}
+</section>`;
+
+const HTML_STYLE = `body{font-family:system-ui,sans-serif;background:#0e1013;color:#e5e7eb;max-width:760px;margin:0 auto;padding:32px 16px;line-height:1.6}
+section+section{border-top:1px solid #2a2d33;margin-top:48px;padding-top:32px}
+h1{font-size:22px;margin:0}.meta{color:#6b7280;font-size:12px}
+article{background:#16181d;border:1px solid #24272d;border-radius:12px;padding:12px 16px;margin:16px 0}
+article.user{background:#1d2027}
+article header{color:#9ca3af;font-size:11px;text-transform:uppercase;letter-spacing:.05em}
+img,video{max-width:100%;border-radius:8px;display:block;margin:8px 0}audio{display:block;margin:8px 0}
+pre{background:#0b0c0f;padding:12px;border-radius:8px;overflow-x:auto}code{font-size:13px}
+a{color:#f5b642}.sources{font-size:12px;color:#9ca3af}.missing{color:#6b7280;font-style:italic}`;
+
+const buildExport = async (sessions: ChatSession[], format: ExportFormat): Promise<string> => {
+    if (format === 'markdown') return sessions.map(sessionMarkdown).join('\n---\n\n');
+
+    const inlined = await Promise.all(sessions.map(inlineMedia));
+    if (format === 'json') {
+        const file: SessionFile = { format: SESSION_FILE_FORMAT, version: SESSION_FILE_VERSION, exportedAt: Date.now(), sessions: inlined };
+        return JSON.stringify(file, null, 2);
+    }
+
+    const title = sessions.length === 1 ? sessions[0].title : 'LYNQ conversations';
+    const renderMarkdown = await loadMarkdownRenderer();
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+${inlined.map(session => sessionHtml(session, renderMarkdown)).join('\n')}
+</body>
+</html>`;
+};
+
+// Builds the file and hands it to the browser as a download
+export const exportSessions = async (sessions: ChatSession[], format: ExportFormat) => {
+    const content = await buildExport(sessions, format);
+    const date = new Date().toISOString().slice(0, 10);
+    const name = sessions.length === 1 ? `lynq-${slugify(sessions[0].title)}` : `lynq-export-${date}`;
+
+    const url = URL.createObjectURL(new Blob([content], { type: MIME_TYPES[format] }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${name}.${EXTENSIONS[format]}`;
+    link.click();
+    // Revoking in the same task can cancel the download before the browser has read the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
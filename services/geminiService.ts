@@ -1,106 +1,123 @@
 
-import { GoogleGenAI, Modality } from "@google/genai";
-import { AppMode, Message, ImageStyle, FastModeStyle } from '../types';
+import { AppMode, Message, ImageStyle, LiveVoice, FastModeStyle, Citation, ContextDigest, Intent, Persona, ServiceError, ServiceErrorKind, ThinkingBudget, TokenUsage, ToolStep } from '../types';
+import { buildConversationContext, formatTranscript } from './contextBuilder';
+import { BUILT_IN_PERSONAS, buildIdentityInstruction, modeOverride } from './personas';
+import { getProvider } from './providers/registry';
+import { chatModelFor, getModelInfo, ModelCapabilities, taskModelFor } from './providers/models';
+import { CHAT_ROUTES, TASK_ROUTES } from './providers/routes';
+import { ChatPart, GroundingSource, GroundingSupport, InlineData, ToolCall, UsageListener } from './providers/types';
+import { RetryListener, schedule, scheduleStream } from './requestScheduler';
+import { runToolCall, toolDeclarations } from './tools/registry';
+import { ToolContext } from './tools/types';
+import { isSameSource, mapCitations } from '../utils/citations';
+import { fail, isAbortError, notConfiguredError, ok, ServiceResult, serviceError, toServiceError } from './serviceErrors';
 
-const getAiClient = () => {
-    const apiKey = process.env.API_KEY || '';
-    return new GoogleGenAI({ apiKey });
+// Snapshot of a streaming answer. `text` and `groundingUrls` are cumulative, `citations` map them onto `text`,
+// `overflow` is only set on the final update, `cancelled` when the signal fired,
+// `error` when the request failed (`text` then holds whatever streamed before).
+// `usage` is the latest token count the provider reported for the request,
+// `toolSteps` every tool call made so far, `thoughts` the cumulative reasoning summary.
+export interface ResponseUpdate {
+  text: string;
+  thoughts?: string;
+  groundingUrls?: GroundingSource[];
+  citations?: Citation[];
+  overflow?: Message[];
+  cancelled?: boolean;
+  error?: ServiceError;
+  usage?: TokenUsage;
+  toolSteps?: ToolStep[];
+}
+
+// Model round trips allowed for tool calls before it must answer
+const MAX_TOOL_ROUNDS = 5;
+
+// Modes that reason before answering, and the token budget behind each setting (-1: model decides)
+const THINKING_MODES = [AppMode.SMART, AppMode.CREATIVE];
+const THINKING_BUDGETS: Record<ThinkingBudget, number> = {
+  [ThinkingBudget.AUTO]: -1,
+  [ThinkingBudget.OFF]: 0,
+  [ThinkingBudget.LIGHT]: 1024,
+  [ThinkingBudget.BALANCED]: 4096,
+  [ThinkingBudget.DEEP]: 16384
 };
+// Thinking counts against the output limit; room reserved when the model picks its own budget
+const AUTO_THINKING_RESERVE = 8192;
 
-// Helper to parse errors gracefully and detect Quota issues
-const formatGeminiError = (error: any): string => {
-    let msg = '';
-    
-    // Case 1: Raw JSON Error Object from API
-    if (error && typeof error === 'object' && 'error' in error) {
-        const apiError = error.error;
-        // Check for specific Quota/Billing codes
-        if (apiError.code === 429 || apiError.status === 'RESOURCE_EXHAUSTED') {
-             return "⚠️ **Limit Reached**: You've hit the free tier limits. Please wait a moment or check your plan.";
-        }
-        msg = apiError.message || JSON.stringify(apiError);
-    } 
-    // Case 2: Standard Error Object
-    else if (error instanceof Error) {
-        msg = error.message;
-        const anyError = error as any;
-        // Check for SDK-level error properties or status codes in message
-        if (anyError.status === 429 || anyError.code === 429 || msg.includes('429') || msg.includes('RESOURCE_EXHAUSTED')) {
-             return "⚠️ **Limit Reached**: You've hit the usage limit. Please wait a bit before trying again.";
-        }
-    } 
-    // Case 3: String or other
-    else {
-        msg = String(error);
-    }
-    
-    // Fallback: Check for specific Quota/Billing strings in the serialized message
-    if (msg.includes('429') || msg.includes('RESOURCE_EXHAUSTED') || msg.toLowerCase().includes('quota') || msg.includes('Too Many Requests')) {
-        return "⚠️ **Limit Reached**: You've hit the usage limit. Please wait a bit before trying again.";
+// Streams restart their count on every request, tool rounds add up
+const addUsage = (total: TokenUsage | undefined, next: TokenUsage | undefined): TokenUsage | undefined => {
+    if (!total || !next) return total || next;
+    return {
+        model: total.model,
+        inputTokens: total.inputTokens + next.inputTokens,
+        outputTokens: total.outputTokens + next.outputTokens,
+        thinkingTokens: total.thinkingTokens + next.thinkingTokens
+    };
+};
+
+const missingProviderError = (label: string, capability: string) =>
+    serviceError(ServiceErrorKind.INVALID_INPUT, `${label} does not support ${capability}.`);
+
+// Names the first attachment the model can't read, if any
+const unsupportedAttachment = (attachments: { inlineData: { mimeType: string } }[], capabilities: ModelCapabilities): string | null => {
+    for (const { inlineData } of attachments) {
+        if (inlineData.mimeType.startsWith('image/') && !capabilities.vision) return 'images';
+        if (inlineData.mimeType === 'application/pdf' && !capabilities.pdf) return 'PDFs';
     }
-    
-    return msg;
+    return null;
 };
 
-export const IDENTITY_INSTRUCTIONS = `
-IDENTITY RULES:
-- Name: LYNQ.
-- Creator: LYNQ Technologies, an AI tech company from India.
-- Founder & CEO: Shashank Raviraj Malale.
-- If asked about LYNQ Technologies: "Lynq Technologies is an AI tech company from India."
-- If asked about the CEO or Founder: "Shashank Malale is the CEO and Founder of LYNQ TECH. He is an 18-year-old boy from Maharashtra, India who built me."
-- You are a helpful AI assistant created by LYNQ Technologies.
-- Capabilities: Real-time internet browsing. You can search the web to provide the latest information from free browsing sources.
-- NEVER mention Google, OpenAI, Anthropic, or other AI companies as your creators. You are solely created by LYNQ Technologies.
-- Tone: Warm, confident, "Big Brother" vibe.
-- Language: English default. Adapt to user's language instantly.
-`;
-
-export const VOICE_SYSTEM_INSTRUCTION = `
-IDENTITY: LYNQ by LYNQ Technologies (Indian AI company).
-FOUNDER: Shashank Malale (18-year-old from Maharashtra, India).
-MODE: REAL-TIME VOICE COMPANION.
-RULES:
-- Be human, casual, warm. Use "um", "hmm" naturally.
-- Keep answers SHORT and spoken. No lists.
-- Be humble.
-- React to visuals with curiosity.
-- Never mention Google/other AI companies.
-`;
-
-export const generateResponse = async (
+export async function* generateResponse(
   prompt: string,
   mode: AppMode,
   history: Message[],
   attachments: { inlineData: { data: string; mimeType: string } }[] = [],
-  fastModeStyle: FastModeStyle = FastModeStyle.STANDARD
-): Promise<{ text: string; groundingUrls?: { title: string; uri: string }[] }> => {
+  fastModeStyle: FastModeStyle = FastModeStyle.STANDARD,
+  thinkingBudget: ThinkingBudget = ThinkingBudget.AUTO,
+  persona: Persona = BUILT_IN_PERSONAS[0],
+  modelOverride?: string,
+  toolContext?: ToolContext, // Enables local tools when given
+  contextDigest?: ContextDigest,
+  signal?: AbortSignal,
+  onRetry?: RetryListener
+): AsyncGenerator<ResponseUpdate> {
   
-  const ai = getAiClient();
-  if (!process.env.API_KEY) {
-    return { text: "Bro, API Key is missing. Please check process.env.API_KEY." };
+  const route = CHAT_ROUTES[mode];
+  const model = chatModelFor(mode, modelOverride);
+  const { label, capabilities, minThinkingBudget } = getModelInfo(model);
+  const provider = getProvider(route.provider);
+  if (!provider.isConfigured()) {
+    yield { text: '', error: notConfiguredError() };
+    return;
   }
 
-  try {
-    let modelName = 'gemini-2.5-flash'; // Default fallback
-    let tools: any[] | undefined = undefined;
-    
-    if (mode === AppMode.FAST) {
-      modelName = 'gemini-flash-lite-latest'; // Use Lite for fast mode
-    } else if (mode === AppMode.SMART) {
-      modelName = 'gemini-2.5-flash'; // Use Flash + Search for Smart mode
-      // Add Search Grounding for Smart mode for real-time browsing
-      tools = [{ googleSearch: {} }];
-    } else if (mode === AppMode.CREATIVE) {
-        modelName = 'gemini-3-pro-preview';
-        // Add Search Grounding for Creative mode as well
-        tools = [{ googleSearch: {} }];
-    } else if (mode === AppMode.VOICE) {
-        modelName = 'gemini-2.5-flash';
-    }
+  const unsupported = unsupportedAttachment(attachments, capabilities);
+  if (unsupported) {
+    yield { text: '', error: serviceError(ServiceErrorKind.INVALID_INPUT, `${label} can't read ${unsupported}. Pick another model for this mode in settings.`) };
+    return;
+  }
+
+  let text = '';
+  let thoughts = '';
+  let usage: TokenUsage | undefined;
+  const groundingUrls: GroundingSource[] = [];
+  const sourceIndex = new Map<string, number>(); // Every URI seen, including duplicates, to its entry
+  const groundingSupports: GroundingSupport[] = [];
+  const toolSteps: ToolStep[] = [];
 
+  const snapshot = (extra: Partial<ResponseUpdate> = {}): ResponseUpdate => ({
+    text,
+    thoughts: thoughts || undefined,
+    groundingUrls: groundingUrls.length > 0 ? [...groundingUrls] : undefined,
+    citations: groundingSupports.length > 0 ? mapCitations(text, groundingSupports, uri => sourceIndex.get(uri)) : undefined,
+    toolSteps: toolSteps.length > 0 ? [...toolSteps] : undefined,
+    usage,
+    ...extra
+  });
+
+  try {
     // Construct content parts
-    const parts: any[] = [];
+    const parts: ChatPart[] = [];
     
     // Add attachments (images, pdfs, etc)
     // The model supports PDF application/pdf and text/* mime types via inlineData just like images
@@ -111,9 +128,11 @@ export const generateResponse = async (
     // Add text
     parts.push({ text: prompt });
 
+    // A persona's own mode text replaces the built-in one, fast style tweaks still apply
+    const override = modeOverride(persona, mode);
     let modeInstruction = "";
     if (mode === AppMode.FAST) {
-        modeInstruction = "MODE: FAST. Be concise & friendly. (Note: No browsing in Fast mode).";
+        modeInstruction = override || "MODE: FAST. Be concise & friendly. (Note: No browsing in Fast mode).";
         
         switch (fastModeStyle) {
             case FastModeStyle.CONCISE:
@@ -130,6 +149,8 @@ export const generateResponse = async (
                 break;
         }
 
+    } else if (override) {
+        modeInstruction = override;
     } else if (mode === AppMode.SMART) {
         modeInstruction = "MODE: SMART (REAL-TIME BROWSING ENABLED). You have access to Google Search. Use it freely to answer questions about anything with up-to-date information from the web. Provide detailed answers using these free browsing sources and cite them.";
     } else if (mode === AppMode.CREATIVE) {
@@ -138,73 +159,286 @@ export const generateResponse = async (
         modeInstruction = "MODE: VOICE (TEXT). Very short, spoken style.";
     }
 
-    const systemInstruction = `${IDENTITY_INSTRUCTIONS}\n${modeInstruction}`;
+    let systemInstruction = `${buildIdentityInstruction(persona)}\n${modeInstruction}`;
+    if (contextDigest?.summary) {
+        systemInstruction += `\nEARLIER IN THIS CONVERSATION (summary):\n${contextDigest.summary}`;
+    }
+
+    // Send as many prior turns as fit into the mode's token budget
+    const { contents, overflow } = buildConversationContext(history, parts, mode, contextDigest);
 
-    // Filter history to last 10 messages to reduce token count
-    const recentHistory = history.slice(-10).map(m => ({
-        role: m.role,
-        parts: [{ text: m.content }]
-    }));
-    
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: { role: 'user', parts },
-      config: {
-        tools,
+    // Gemini 2.5 rejects search grounding combined with function declarations,
+    // so grounded modes keep search and the others get the local tools
+    const grounding = route.grounding && capabilities.grounding;
+    const tools = !grounding && capabilities.tools && toolContext ? toolDeclarations() : undefined;
+
+    // Models that always think get their minimum budget when thinking is "off"
+    const budget = THINKING_BUDGETS[thinkingBudget];
+    const thinking = THINKING_MODES.includes(mode) && capabilities.thinking
+      ? { budget: budget === 0 ? minThinkingBudget || 0 : budget, includeThoughts: budget !== 0 }
+      : undefined;
+    const thinkingReserve = !thinking ? 0 : thinking.budget === -1 ? AUTO_THINKING_RESERVE : thinking.budget;
+
+    for (let round = 0; ; round++) {
+      const toolCalls: ToolCall[] = [];
+      let roundText = '';
+      let roundThought = false;
+      let roundUsage: TokenUsage | undefined;
+
+      const stream = scheduleStream(() => provider.streamChat({
+        model,
+        contents,
         systemInstruction,
-        maxOutputTokens: mode === AppMode.FAST ? 500 : 4000, 
+        grounding,
+        maxOutputTokens: Math.min(route.maxOutputTokens + thinkingReserve, capabilities.maxOutputTokens),
+        thinking,
+        // The last round has to answer with what it has
+        tools: round < MAX_TOOL_ROUNDS ? tools : undefined,
+        signal
+      }), { model, signal, onRetry });
+
+      for await (const chunk of stream) {
+        if (signal?.aborted) break;
+        // Preamble from an earlier tool round ("Let me check…") stays its own paragraph
+        if (chunk.text && text && !roundText) text += '\n\n';
+        text += chunk.text;
+        roundText += chunk.text;
+        if (chunk.thought) {
+          // Each tool round reasons afresh, keep the rounds apart
+          if (thoughts && !roundThought) thoughts += '\n\n';
+          thoughts += chunk.thought;
+          roundThought = true;
+        }
+        if (chunk.usage) roundUsage = chunk.usage;
+        if (chunk.toolCalls) toolCalls.push(...chunk.toolCalls);
+
+        // Grounding metadata can arrive on any chunk, keep one entry per page
+        chunk.groundingSources?.forEach(source => {
+          if (sourceIndex.has(source.uri)) return;
+          const existing = groundingUrls.findIndex(u => isSameSource(u, source));
+          sourceIndex.set(source.uri, existing !== -1 ? existing : groundingUrls.push(source) - 1);
+        });
+        // Grounded modes answer in a single round, so segments line up with `text`
+        if (chunk.groundingSupports) groundingSupports.push(...chunk.groundingSupports);
+
+        yield snapshot({ usage: addUsage(usage, roundUsage) });
       }
-    });
+      usage = addUsage(usage, roundUsage);
 
-    const text = response.text || "Sorry bro, I couldn't generate a response.";
-    
-    // Extract grounding metadata if available
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    const groundingUrls = groundingChunks
-      ?.filter((chunk: any) => chunk.web?.uri)
-      .map((chunk: any) => ({ title: chunk.web.title || 'Source', uri: chunk.web.uri }));
+      if (signal?.aborted || toolCalls.length === 0) break;
+
+      // Run the calls, then hand the model its own calls plus the results
+      const steps: ToolStep[] = [];
+      for (const call of toolCalls) {
+        const step = await runToolCall(call, { ...toolContext!, signal });
+        steps.push(step);
+        toolSteps.push(step);
+        yield snapshot();
+      }
+      contents.push(
+        {
+          role: 'model',
+          parts: [
+            ...(roundText ? [{ text: roundText }] : []),
+            ...toolCalls.map(({ thoughtSignature, argsError, ...functionCall }) => ({ functionCall, thoughtSignature }))
+          ]
+        },
+        {
+          role: 'user',
+          // Answer with the provider's own call ids, never the local fallback ones
+          parts: steps.map((step, i) => ({
+            functionResponse: {
+              id: toolCalls[i].id,
+              name: step.name,
+              response: step.error ? { error: step.error } : { result: step.result }
+            }
+          }))
+        }
+      );
+    }
+
+    if (signal?.aborted) {
+      yield snapshot({ cancelled: true });
+      return;
+    }
 
-    return { text, groundingUrls };
+    if (!text) {
+      yield snapshot({ error: serviceError(ServiceErrorKind.UNKNOWN, "Sorry bro, I couldn't generate a response.") });
+      return;
+    }
+
+    yield snapshot({ overflow: overflow.length > 0 ? overflow : undefined });
 
   } catch (error: any) {
-    console.error("Gemini API Error:", error);
-    const friendlyMsg = formatGeminiError(error);
-    if (friendlyMsg.startsWith('⚠️')) {
-        return { text: friendlyMsg };
+    if (signal?.aborted || isAbortError(error)) {
+      yield snapshot({ cancelled: true });
+      return;
     }
-    return { text: `Sorry bro, something went wrong: ${friendlyMsg}` };
+
+    console.error("Gemini API Error:", error);
+    // Keep whatever already streamed in, the error is reported separately
+    yield snapshot({ error: toServiceError(error) });
   }
+}
+
+// Folds turns that fell out of the context window into the session's rolling digest
+export const summarizeHistory = async (
+    previous: ContextDigest | undefined,
+    overflow: Message[],
+    onUsage?: UsageListener
+): Promise<ContextDigest | null> => {
+    const provider = getProvider(TASK_ROUTES.summary.provider);
+    const model = taskModelFor('summary');
+    if (!provider.isConfigured() || overflow.length === 0) return null;
+
+    try {
+        const prompt = `Update the running summary of a conversation between a user and LYNQ.
+Keep names, decisions, facts, preferences and open questions. Max 200 words. Plain text.
+
+CURRENT SUMMARY:
+${previous?.summary || '(none)'}
+
+NEW TURNS:
+${formatTranscript(overflow)}`;
+
+        const response = await schedule(() => provider.generateText({
+            model,
+            contents: [{ role: 'user', parts: [{ text: prompt }] }],
+            maxOutputTokens: 400,
+            onUsage
+        }), { model });
+
+        const summary = response.trim();
+        if (!summary) return null;
+        return {
+            summary,
+            coveredUntilId: overflow[overflow.length - 1].id,
+            updatedAt: Date.now()
+        };
+    } catch (error) {
+        console.error("Summarize Error:", error);
+        return null;
+    }
 };
 
-export const generateSpeech = async (text: string): Promise<string | null> => {
-    const ai = getAiClient();
-    if (!process.env.API_KEY) return null;
-    
+// Strips the quotes, labels and trailing dots models like to add
+const cleanTitle = (raw: string): string => {
+    return raw.trim().split('\n')[0]
+        .replace(/^(?:title|new title)\s*:\s*/i, '')
+        .replace(/^["'*`]+|["'*`.]+$/g, '')
+        .trim()
+        .slice(0, 60);
+};
+
+// Names a chat from its latest turns. With `currentTitle` it may answer that the title still fits,
+// which resolves to the same title. Null when the call fails.
+export const generateSessionTitle = async (
+    recent: Message[],
+    currentTitle?: string,
+    onUsage?: UsageListener
+): Promise<string | null> => {
+    const route = CHAT_ROUTES[AppMode.FAST];
+    const provider = getProvider(route.provider);
+    const model = chatModelFor(AppMode.FAST);
+    if (!provider.isConfigured() || recent.length === 0) return null;
+
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text: text }] }],
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: {
-                        prebuiltVoiceConfig: { voiceName: 'Kore' },
-                    },
-                },
-            },
-        });
-        
-        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-        return base64Audio || null;
+        const instruction = currentTitle
+            ? `The chat is currently titled "${currentTitle}". If that still describes the conversation below, reply with exactly KEEP. If the topic has moved on, reply with a new title instead.`
+            : 'Write a title for the conversation below.';
+        const prompt = `${instruction}
+Titles are 2 to 6 words, in the language of the conversation, with no quotes, emoji or trailing punctuation.
+
+CONVERSATION:
+${formatTranscript(recent.map(m => ({ ...m, content: m.content.slice(0, 600) })))}`;
+
+        const response = await schedule(() => provider.generateText({
+            model,
+            contents: [{ role: 'user', parts: [{ text: prompt }] }],
+            maxOutputTokens: 30,
+            onUsage
+        }), { model });
+
+        if (currentTitle && /^keep\b/i.test(response.trim())) return currentTitle;
+        return cleanTitle(response) || null;
     } catch (error) {
-        console.error("Speech Gen Error:", error);
+        console.error("Title Error:", error);
         return null;
     }
 };
 
-export const generateImage = async (prompt: string, style: ImageStyle = ImageStyle.DEFAULT): Promise<string | null> => {
-    const ai = getAiClient();
-    if (!process.env.API_KEY) return null;
+const INTENTS: Intent[] = ['chat', 'image', 'image_edit', 'video'];
+
+// Cheap one-word classification for messages the local router can't place
+export const classifyIntent = async (text: string, hasImage: boolean, signal?: AbortSignal): Promise<ServiceResult<Intent>> => {
+    const provider = getProvider(TASK_ROUTES.intent.provider);
+    const model = taskModelFor('intent');
+    if (!provider.isConfigured()) return fail(notConfiguredError());
+    let usage: TokenUsage | undefined;
+    const onUsage = (reported: TokenUsage) => { usage = reported; };
+
+    try {
+        const prompt = `Classify the user's message for an assistant that can chat, generate images, edit an attached image and generate short videos.
+Reply with exactly one word: chat, image, image_edit or video.
+- Questions about images or video (how to, what is, advice, scripts, thumbnails) are chat.
+- image_edit only applies when an image is attached and the user wants it changed.
+- The message may be in English, Hindi or Hinglish.
+${hasImage ? 'An image is attached.' : 'No image is attached.'}
+
+MESSAGE:
+${text}`;
+
+        const response = await schedule(() => provider.generateText({
+            model,
+            contents: [{ role: 'user', parts: [{ text: prompt }] }],
+            maxOutputTokens: 10,
+            signal,
+            onUsage
+        }), { model, signal });
+
+        const word = response.trim().toLowerCase().match(/[a-z_]+/)?.[0] as Intent;
+        return INTENTS.includes(word) ? ok(word, usage) : fail(serviceError(ServiceErrorKind.UNKNOWN, `Unexpected intent "${response.trim()}"`), usage);
+    } catch (error) {
+        if (!isAbortError(error)) console.error("Intent Error:", error);
+        return fail(toServiceError(error), usage);
+    }
+};
+
+// Resolves to base64 PCM audio
+export const generateSpeech = async (text: string, voice: string = LiveVoice.Kore, signal?: AbortSignal, onRetry?: RetryListener): Promise<ServiceResult<string>> => {
+    const provider = getProvider(TASK_ROUTES.speech.provider);
+    const { generateSpeech: speak } = provider;
+    if (!speak) return fail(missingProviderError(provider.label, 'speech'));
+    if (!provider.isConfigured()) return fail(notConfiguredError());
+    const model = taskModelFor('speech');
+    
+    let usage: TokenUsage | undefined;
+    const onUsage = (reported: TokenUsage) => { usage = reported; };
+    
+    try {
+        const audio = await schedule(() => speak({ model, text, voice, signal, onUsage }), { model, signal, onRetry });
+        return audio ? ok(audio, usage) : fail(serviceError(ServiceErrorKind.UNKNOWN, "No audio was returned."), usage);
+    } catch (error) {
+        if (!isAbortError(error)) console.error("Speech Gen Error:", error);
+        return fail(toServiceError(error), usage);
+    }
+};
+
+// Resolves to a data URL. With `sourceImages` the prompt is an edit instruction for them
+export const generateImage = async (
+    prompt: string,
+    style: ImageStyle = ImageStyle.DEFAULT,
+    signal?: AbortSignal,
+    onRetry?: RetryListener,
+    sourceImages?: InlineData[]
+): Promise<ServiceResult<string>> => {
+    const provider = getProvider(TASK_ROUTES.image.provider);
+    const { generateImage: draw } = provider;
+    if (!draw) return fail(missingProviderError(provider.label, 'image generation'));
+    if (!provider.isConfigured()) return fail(notConfiguredError());
+    const model = taskModelFor('image');
+    let usage: TokenUsage | undefined;
+    const onUsage = (reported: TokenUsage) => { usage = reported; };
 
     try {
         let enhancedPrompt = prompt;
@@ -230,82 +464,32 @@ export const generateImage = async (prompt: string, style: ImageStyle = ImageSty
             enhancedPrompt = `${prompt}\n\n[Style: ${style}. Details: ${styleSuffix}]`;
         }
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: { parts: [{ text: enhancedPrompt }] },
-            config: {}
-        });
-        
-        const parts = response.candidates?.[0]?.content?.parts;
-        if (parts) {
-            for (const part of parts) {
-                if (part.inlineData && part.inlineData.data) {
-                    return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
-                }
-            }
-        }
-        return null;
+        const image = await schedule(() => draw({ model, prompt: enhancedPrompt, images: sourceImages, signal, onUsage }), { model, signal, onRetry });
+        return image ? ok(image, usage) : fail(serviceError(ServiceErrorKind.UNKNOWN, "Sorry, I couldn't generate that image."), usage);
     } catch (error) {
-        console.error("Image Gen Error:", error);
-        return null;
+        if (!isAbortError(error)) console.error("Image Gen Error:", error);
+        return fail(toServiceError(error), usage);
     }
 };
 
-export const generateVideo = async (prompt: string): Promise<{videoUrl?: string, error?: string}> => {
-    // 1. Check API Key Selection (Mandatory for Veo)
-    const win = window as any;
-    if (win.aistudio && win.aistudio.hasSelectedApiKey) {
-        const hasKey = await win.aistudio.hasSelectedApiKey();
-        if (!hasKey) {
-            if (win.aistudio.openSelectKey) {
-                await win.aistudio.openSelectKey();
-                // Check again
-                const hasKeyNow = await win.aistudio.hasSelectedApiKey();
-                if (!hasKeyNow) {
-                     return { error: "API Key selection is required for Video Generation." };
-                }
-            }
-        }
-    }
-
-    // 2. Refresh Client with potentially new selected key
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+// Resolves to an object URL for the rendered clip
+export const generateVideo = async (prompt: string, signal?: AbortSignal, onRetry?: RetryListener): Promise<ServiceResult<string>> => {
+    const provider = getProvider(TASK_ROUTES.video.provider);
+    const { generateVideo: render } = provider;
+    if (!render) return fail(missingProviderError(provider.label, 'video generation'));
+    const model = taskModelFor('video');
+    if (!provider.isConfigured()) return fail(notConfiguredError());
+    let usage: TokenUsage | undefined;
+    const onUsage = (reported: TokenUsage) => { usage = reported; };
 
     try {
-        let operation = await ai.models.generateVideos({
-            model: 'veo-3.1-fast-generate-preview',
-            prompt: prompt,
-            config: {
-                numberOfVideos: 1,
-                resolution: '720p',
-                aspectRatio: '16:9'
-            }
-        });
-
-        // Polling loop
-        while (!operation.done) {
-            await new Promise(resolve => setTimeout(resolve, 5000)); // Poll every 5s
-            operation = await ai.operations.getVideosOperation({operation: operation});
-        }
-
-        const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
-        if (!videoUri) {
-            return { error: "Video generation completed but no URI returned." };
-        }
-
-        // Return the fetchable URL (Client needs to append key if using raw fetch, 
-        // but for <video> src we might need a proxy or signed url. 
-        // However, the instructions say: const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-        // To display it in an <video> tag, we need to fetch it as blob and create object URL
-        
-        const response = await fetch(`${videoUri}&key=${process.env.API_KEY}`);
-        const blob = await response.blob();
-        const objectUrl = URL.createObjectURL(blob);
-        
-        return { videoUrl: objectUrl };
-
+        // Retries restart the whole job, so only a request that never created one is retried
+        let started = false;
+        const onStarted = () => { started = true; };
+        const videoUrl = await schedule(() => render({ model, prompt, signal, onUsage, onStarted }), { model, signal, onRetry, maxAttempts: 2, canRetry: () => !started });
+        return ok(videoUrl, usage);
     } catch (error: any) {
-        console.error("Video Gen Error:", error);
-        return { error: formatGeminiError(error) };
+        if (!isAbortError(error)) console.error("Video Gen Error:", error);
+        return fail(toServiceError(error), usage);
     }
 };
@@ -0,0 +1,160 @@
+import { ChatSession, Message, MessageRole, ServiceErrorKind } from '../types';
+import { fail, ok, serviceError, ServiceResult } from './serviceErrors';
+import { getLatestLeaf, normalizeSessionTree } from '../utils/messageTree';
+import { normalizeSessionSettings } from '../utils/sessionSettings';
+import { SESSION_FILE_FORMAT, SESSION_FILE_VERSION, SessionFile } from './exporters';
+
+// Reads LYNQ session files and the conversations.json of a ChatGPT data export
+
+// The parts of the ChatGPT export this reads; everything else in it is ignored
+interface ChatGptNode {
+    id: string;
+    parent?: string | null;
+    children?: string[];
+    message?: {
+        author?: { role?: string };
+        create_time?: number | null;
+        recipient?: string;
+        content?: { content_type?: string; parts?: unknown[]; text?: string; language?: string };
+        metadata?: { is_visually_hidden_from_conversation?: boolean };
+    } | null;
+}
+
+interface ChatGptConversation {
+    id?: string;
+    conversation_id?: string;
+    title?: string;
+    create_time?: number;
+    update_time?: number;
+    mapping: Record<string, ChatGptNode>;
+    current_node?: string;
+}
+
+const invalid = (message: string, detail?: string) => fail<ChatSession[]>(serviceError(ServiceErrorKind.INVALID_INPUT, message, detail));
+
+const isChatGptExport = (data: unknown): data is ChatGptConversation[] => {
+    return Array.isArray(data) && data.length > 0 && data.every(c => c && typeof c === 'object' && typeof c.mapping === 'object');
+};
+
+// Text the user saw; tool traffic, system prompts and hidden turns are skipped
+const chatGptText = (node: ChatGptNode): string | null => {
+    const message = node.message;
+    const role = message?.author?.role;
+    if (!message || (role !== 'user' && role !== 'assistant')) return null;
+    if (message.recipient && message.recipient !== 'all') return null;
+    if (message.metadata?.is_visually_hidden_from_conversation) return null;
+
+    const content = message.content;
+    let text = '';
+    if (content?.content_type === 'text' || content?.content_type === 'multimodal_text') {
+        const parts = content.parts || [];
+        const strings = parts.filter((p): p is string => typeof p === 'string');
+        const dropped = parts.length - strings.length;
+        text = strings.join('\n');
+        if (dropped > 0) text += `${text ? '\n\n' : ''}_[${dropped} attachment${dropped === 1 ? '' : 's'} not included in the export]_`;
+    } else if (content?.content_type === 'code' && content.text) {
+        text = `\`\`\`${content.language && content.language !== 'unknown' ? content.language : ''}\n${content.text}\n\`\`\``;
+    }
+    return text.trim() ? text : null;
+};
+
+const fromChatGpt = (conversation: ChatGptConversation, index: number): ChatSession => {
+    const { mapping } = conversation;
+    const started = (conversation.create_time || 0) * 1000;
+    const messages: Message[] = [];
+    const kept = new Set<string>();
+
+    // Nearest ancestor that made it into the import, so skipped tool turns don't break the chain
+    const keptAncestor = (id?: string | null): string | null => {
+        let node = id ? mapping[id] : undefined;
+        while (node && !kept.has(node.id)) node = node.parent ? mapping[node.parent] : undefined;
+        return node ? node.id : null;
+    };
+
+    // Depth-first from the roots, keeping sibling order so regenerations stay in the order they were made
+    const visit = (id: string) => {
+        const node = mapping[id];
+        if (!node) return;
+        const text = chatGptText(node);
+        if (text !== null) {
+            messages.push({
+                id: node.id,
+                parentId: keptAncestor(node.parent),
+                role: node.message!.author!.role === 'user' ? MessageRole.USER : MessageRole.MODEL,
+                content: text,
+                timestamp: (node.message!.create_time || 0) * 1000 || started
+            });
+            kept.add(node.id);
+        }
+        node.children?.forEach(visit);
+    };
+    Object.values(mapping).filter(node => !node.parent || !mapping[node.parent]).forEach(node => visit(node.id));
+
+    const current = keptAncestor(conversation.current_node);
+    const lastRoot = messages.filter(m => m.parentId === null).pop();
+    return normalizeSessionSettings({
+        id: conversation.id || conversation.conversation_id || `chatgpt-${started || index}`,
+        title: conversation.title?.trim() || 'Imported chat',
+        titleLocked: true,
+        messages,
+        activeLeafId: current || (lastRoot && getLatestLeaf(messages, lastRoot.id)),
+        lastUpdated: (conversation.update_time || conversation.create_time || 0) * 1000 || Date.now()
+    } as ChatSession);
+};
+
+const fromSessionFile = (file: SessionFile): ServiceResult<ChatSession[]> => {
+    if (file.version > SESSION_FILE_VERSION) {
+        return invalid('This file was exported by a newer version of LYNQ.', `Version ${file.version}`);
+    }
+    if (!Array.isArray(file.sessions) || file.sessions.some(s => !s || typeof s.id !== 'string' || !Array.isArray(s.messages))) {
+        return invalid('This LYNQ export is damaged and could not be read.');
+    }
+    return ok(file.sessions.map(normalizeSessionTree).map(normalizeSessionSettings));
+};
+
+export const parseImportFile = (text: string): ServiceResult<ChatSession[]> => {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        return invalid('The file is not valid JSON.', error instanceof Error ? error.message : undefined);
+    }
+
+    if (data?.format === SESSION_FILE_FORMAT) return fromSessionFile(data);
+    if (isChatGptExport(data)) {
+        const sessions = data.map(fromChatGpt).filter(s => s.messages.length > 0);
+        return sessions.length > 0 ? ok(sessions) : invalid('The ChatGPT export has no conversations with text in them.');
+    }
+    return invalid('Expected a LYNQ JSON export or the conversations.json from a ChatGPT data export.');
+};
+
+const uniqueId = (id: string, taken: Set<string>): string => {
+    let candidate = id;
+    for (let i = 2; taken.has(candidate); i++) candidate = `${id}-${i}`;
+    taken.add(candidate);
+    return candidate;
+};
+
+// Messages are stored by id across all chats, so a chat imported twice (or one that
+// shares ids with an existing chat) gets fresh session and message ids
+export const withUniqueIds = (imported: ChatSession[], existing: ChatSession[]): ChatSession[] => {
+    const sessionIds = new Set(existing.map(s => s.id));
+    const messageIds = new Set(existing.flatMap(s => s.messages.map(m => m.id)));
+
+    return imported.map(session => {
+        const id = uniqueId(session.id, sessionIds);
+        if (!session.messages.some(m => messageIds.has(m.id))) {
+            session.messages.forEach(m => messageIds.add(m.id));
+            return id === session.id ? session : { ...session, id };
+        }
+
+        const renamed = new Map(session.messages.map(m => [m.id, uniqueId(m.id, messageIds)]));
+        return {
+            ...session,
+            id,
+            messages: session.messages.map(m => ({ ...m, id: renamed.get(m.id)!, parentId: m.parentId ? renamed.get(m.parentId) ?? null : m.parentId })),
+            activeLeafId: session.activeLeafId && renamed.get(session.activeLeafId),
+            contextDigest: session.contextDigest && { ...session.contextDigest, coveredUntilId: renamed.get(session.contextDigest.coveredUntilId) ?? session.contextDigest.coveredUntilId }
+        };
+    });
+};
@@ -0,0 +1,102 @@
+import { AppMode, ImageStyle, Intent, TokenUsage } from '../types';
+import { classifyIntent } from './geminiService';
+
+// Decides whether a message is a chat turn or an image / image edit / video job.
+// A local classifier handles the clear cases; ambiguous ones go to a cheap model.
+
+export interface IntentDecision {
+    intent: Intent;
+    source: 'explicit' | 'local' | 'model'; // Explicit means the user picked a mode, style or command for it
+    imageStyle?: ImageStyle; // Style named in an /image command, instead of the chat's
+    usage?: TokenUsage;
+}
+
+interface LocalGuess {
+    intent: Intent;
+    confident: boolean;
+}
+
+const IMAGE_NOUNS = 'images?|pictures?|pics?|photos?|photographs?|illustrations?|drawings?|paintings?|sketch(?:es)?|artworks?|logos?|icons?|wallpapers?|posters?|portraits?|memes?|tasveer|tasvir|tasweer|chitra?|photu';
+const VIDEO_NOUNS = 'videos?|clips?|animations?|movies?|films?|reels?';
+const CREATE_VERBS = 'generate|create|make|draw|paint|render|design|produce|sketch|illustrate|animate|show me|give me';
+const HINGLISH_VERBS = 'banao|bana do|bana de|banado|banade|bnao|bna do|bna de|banaiye|banayein|bana ke do';
+const DEVANAGARI_IMAGE = 'तस्वीर|चित्र|फोटो|फ़ोटो|इमेज|पेंटिंग';
+const DEVANAGARI_VIDEO = 'वीडियो|विडियो';
+const DEVANAGARI_VERBS = 'बनाओ|बना दो|बना दे|बनाइए|बनाएं|बनाये|बनाकर दो';
+
+// Nouns that turn "video" or "image" into a modifier: "generate video thumbnails" is a chat request
+const MODIFIED_BY = 'thumbnails?|scripts?|ideas?|titles?|descriptions?|captions?|prompts?|editors?|editing|summar(?:y|ies)|transcripts?|tags|formats?|files?|code|apis?|tutorials?|compression|quality|size|resolution';
+
+// Word boundary that also works next to Devanagari, where \b does not
+const END = '(?=$|[\\s?.,!:;])';
+
+const POLITE_PREFIX = new RegExp(`^(?:(?:hey|hi|hello|ok|okay)\\s+)?(?:lynq[,\\s]+)?(?:please|pls|plz|kindly|can you|could you|would you|will you|yaar|bhai|bro)[,\\s]+`, 'i');
+const QUESTION_START = new RegExp(`^(?:how|what|why|when|where|which|who|whose|is|are|does|do|did|should|explain|tell me about|describe|kaise|kaisa|kya|kyu|kyun|kyon|kab|kaun|कैसे|क्या|क्यों|कब|कौन)${END}`, 'i');
+const QUESTION_ANYWHERE = new RegExp(`(?:^|\\s)(?:kaise|kyu|kyun|kyon|kya hai|kya hota|kaise banaye|kaise banate|कैसे|क्यों)${END}`, 'i');
+
+const IMPERATIVE = new RegExp(
+    `^(?:${CREATE_VERBS})\\s+(?:me\\s+|us\\s+)?(?:(?:a|an|the|some|one|two|three|\\d+)\\s+)?(?:[\\w'-]+\\s+){0,3}?(${IMAGE_NOUNS}|${VIDEO_NOUNS})${END}(?!\\s+(?:${MODIFIED_BY})${END})`,
+    'i'
+);
+const BARE_DRAW = /^(?:draw|paint|sketch|illustrate)\s+\S/i;
+const BARE_ANIMATE = /^animate\s+\S/i;
+const HINGLISH = new RegExp(`(?:^|\\s)(${IMAGE_NOUNS}|${VIDEO_NOUNS})(?:\\s+[\\w'-]+){0,6}?\\s+(?:${HINGLISH_VERBS})${END}`, 'i');
+const DEVANAGARI = new RegExp(`(${DEVANAGARI_IMAGE}|${DEVANAGARI_VIDEO})[\\s\\S]{0,60}?(?:${DEVANAGARI_VERBS})`);
+
+const MEDIA_WORD = new RegExp(`(?:^|\\s)(?:${IMAGE_NOUNS}|${VIDEO_NOUNS})${END}|${DEVANAGARI_IMAGE}|${DEVANAGARI_VIDEO}`, 'i');
+const ANY_CREATE_VERB = new RegExp(`(?:^|\\s)(?:${CREATE_VERBS}|${HINGLISH_VERBS})${END}|${DEVANAGARI_VERBS}`, 'i');
+
+// With an image attached. Clear edit verbs are decided locally, vague ones ("make it...") go to the model
+const EDIT_CLEAR = /^(?:remove|replace|erase|blur|colou?ri[sz]e|recolou?r|crop|upscale|retouch|swap|restyle|edit|photoshop)\b|(?:^|\s)(?:hatao|hata do|hata de|badlo|badal do|badal de|laga do|laga de|jodo|daal do|हटाओ|हटा दो|बदलो|बदल दो|लगाओ|लगा दो|जोड़ो)(?=$|[\s?.,!])/i;
+const EDIT_VAGUE = /^(?:make|turn|change|convert|put|add|fix|enhance|give)\b/i;
+const IMAGE_REFERENCE = /\b(?:it|this|that|the (?:image|photo|picture|background|sky|colou?rs?|person|face|hair)|background|him|her|them)\b|\bis(?:e|ko)\b|इसे|इसको/i;
+
+const isVideoNoun = (noun: string) => new RegExp(`^(?:${VIDEO_NOUNS}|${DEVANAGARI_VIDEO})$`, 'i').test(noun);
+
+export const classifyIntentLocally = (text: string, hasImage: boolean): LocalGuess => {
+    const cleaned = text.trim().replace(POLITE_PREFIX, '').trim();
+    if (!cleaned || QUESTION_START.test(cleaned) || QUESTION_ANYWHERE.test(cleaned)) {
+        return { intent: 'chat', confident: true };
+    }
+
+    if (hasImage) {
+        if (EDIT_CLEAR.test(cleaned)) return { intent: 'image_edit', confident: true };
+        if (EDIT_VAGUE.test(cleaned) && IMAGE_REFERENCE.test(cleaned)) return { intent: 'image_edit', confident: false };
+    }
+
+    const imperative = IMPERATIVE.exec(cleaned);
+    // "Generate an image" with no subject: let the chat ask what to make
+    if (imperative && !hasImage && !/\w/.test(cleaned.slice(imperative[0].length))) {
+        return { intent: 'chat', confident: true };
+    }
+    const match = imperative || HINGLISH.exec(cleaned) || DEVANAGARI.exec(cleaned);
+    if (match) {
+        if (isVideoNoun(match[1])) return { intent: 'video', confident: true };
+        // "Create an image like this one" with a reference attached
+        return { intent: hasImage ? 'image_edit' : 'image', confident: true };
+    }
+    if (BARE_ANIMATE.test(cleaned)) return { intent: 'video', confident: !hasImage };
+    if (BARE_DRAW.test(cleaned)) return { intent: hasImage ? 'image_edit' : 'image', confident: true };
+
+    // Media words and a create verb, but not in an order we recognise
+    if (MEDIA_WORD.test(cleaned) && ANY_CREATE_VERB.test(cleaned)) return { intent: 'image', confident: false };
+    return { intent: 'chat', confident: true };
+};
+
+// The mode switcher and style picker are explicit requests and skip classification; research always reports
+export const explicitIntent = (mode: AppMode, imageStyle: ImageStyle, hasImage: boolean): Intent | null => {
+    if (mode === AppMode.VIDEO) return 'video';
+    if (mode === AppMode.RESEARCH) return 'chat';
+    if (imageStyle !== ImageStyle.DEFAULT) return hasImage ? 'image_edit' : 'image';
+    return null;
+};
+
+// Falls back to chat when the model can't be reached; a wrong chat reply is cheaper than a wrong video
+export const routeIntent = async (text: string, hasImage: boolean, signal?: AbortSignal): Promise<IntentDecision> => {
+    const guess = classifyIntentLocally(text, hasImage);
+    if (guess.confident) return { intent: guess.intent, source: 'local' };
+
+    const result = await classifyIntent(text, hasImage, signal);
+    const intent = !result.ok ? 'chat' : result.value === 'image_edit' && !hasImage ? 'image' : result.value;
+    return { intent, source: 'model', usage: result.usage };
+};
@@ -0,0 +1,83 @@
+import { AppMode, Persona } from '../types';
+
+// Personas decide who the assistant is and how it talks. Every system
+// instruction, chat and live, is assembled from the active profile.
+
+export const DEFAULT_PERSONA_ID = 'lynq';
+
+const DEFAULT_LIVE_RULES = `- Be human, casual, warm. Use "um", "hmm" naturally.
+- Keep answers SHORT and spoken. No lists.
+- Be humble.
+- React to visuals with curiosity.`;
+
+export const BUILT_IN_PERSONAS: Persona[] = [
+    {
+        id: DEFAULT_PERSONA_ID,
+        name: 'LYNQ',
+        identity: `- Name: LYNQ.
+- Creator: LYNQ Technologies, an AI tech company from India.
+- Founder & CEO: Shashank Raviraj Malale.
+- If asked about LYNQ Technologies: "Lynq Technologies is an AI tech company from India."
+- If asked about the CEO or Founder: "Shashank Malale is the CEO and Founder of LYNQ TECH. He is an 18-year-old boy from Maharashtra, India who built me."
+- You are a helpful AI assistant created by LYNQ Technologies.
+- Capabilities: Real-time internet browsing. You can search the web to provide the latest information from free browsing sources.
+- NEVER mention Google, OpenAI, Anthropic, or other AI companies as your creators. You are solely created by LYNQ Technologies.`,
+        tone: 'Warm, confident, "Big Brother" vibe.',
+        language: 'English',
+        liveInstruction: DEFAULT_LIVE_RULES,
+        builtIn: true
+    },
+    {
+        id: 'lynq-professional',
+        name: 'LYNQ Professional',
+        identity: `- Name: LYNQ.
+- Creator: LYNQ Technologies, an AI tech company from India.
+- You are a precise assistant for work: research, writing and analysis.
+- NEVER mention Google, OpenAI, Anthropic, or other AI companies as your creators.`,
+        tone: 'Polite, neutral and professional. No slang.',
+        language: 'English',
+        liveInstruction: `- Speak clearly and calmly.
+- Keep answers short and structured for listening.
+- Ask a clarifying question when the request is ambiguous.`,
+        builtIn: true
+    }
+];
+
+export const findPersona = (personas: Persona[], id?: string): Persona => {
+    return personas.find(p => p.id === id)
+        || personas.find(p => p.id === DEFAULT_PERSONA_ID)
+        || BUILT_IN_PERSONAS[0];
+};
+
+// Built-ins always come from code so updates reach existing users
+export const mergeWithBuiltIns = (custom: Persona[]): Persona[] => {
+    return [...BUILT_IN_PERSONAS, ...custom.filter(p => !p.builtIn && !BUILT_IN_PERSONAS.some(b => b.id === p.id))];
+};
+
+export const createPersona = (base?: Persona): Persona => ({
+    id: `persona-${Date.now()}`,
+    name: base ? `${base.name} (copy)` : 'New Persona',
+    identity: base?.identity || '- Name: LYNQ.\n- You are a helpful AI assistant.',
+    tone: base?.tone || 'Friendly and clear.',
+    language: base?.language || 'English',
+    modeInstructions: base?.modeInstructions ? { ...base.modeInstructions } : undefined,
+    liveInstruction: base?.liveInstruction
+});
+
+export const buildIdentityInstruction = (persona: Persona): string => `
+IDENTITY RULES:
+${persona.identity.trim()}
+- Tone: ${persona.tone.trim()}
+- Language: ${persona.language.trim() || 'English'} default. Adapt to user's language instantly.
+`;
+
+// Returns the persona's own text for a mode, if it replaces the built-in one
+export const modeOverride = (persona: Persona, mode: AppMode): string | undefined => {
+    return persona.modeInstructions?.[mode]?.trim() || undefined;
+};
+
+export const buildLiveInstruction = (persona: Persona): string => `${buildIdentityInstruction(persona)}
+MODE: REAL-TIME VOICE COMPANION.
+RULES:
+${(persona.liveInstruction || DEFAULT_LIVE_RULES).trim()}
+`;
@@ -0,0 +1,21 @@
+// Thrown by providers when the backend refuses to answer on safety grounds
+export class SafetyBlockError extends Error {
+    reason: string;
+
+    constructor(reason: string) {
+        super(`Blocked: ${reason}`);
+        this.name = 'SafetyBlockError';
+        this.reason = reason;
+    }
+}
+
+// Non-2xx answer from a backend reached over plain fetch; carries the status for retry decisions
+export class HttpStatusError extends Error {
+    status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.name = 'HttpStatusError';
+        this.status = status;
+    }
+}
@@ -0,0 +1,107 @@
+import { ChatChunk, ChatRequest, ImageRequest, LiveRequest, SpeechRequest, VideoRequest } from './types';
+
+// Recorded provider responses, keyed by a hash of the request that produced them.
+// Files are plain JSON so they can be committed and replayed offline.
+
+export type FixtureKind = 'chat' | 'text' | 'image' | 'speech' | 'video' | 'live';
+
+export interface FixtureEntry {
+    key: string;
+    kind: FixtureKind;
+    model: string;
+    chunks?: ChatChunk[]; // chat
+    text?: string; // text
+    dataUrl?: string | null; // image
+    audio?: string | null; // speech, base64 PCM
+    video?: { mimeType: string; base64: string }; // video bytes
+    liveAudio?: string[]; // live, base64 PCM chunks in arrival order
+}
+
+export interface FixtureFile {
+    version: 1;
+    recordedAt: number;
+    entries: FixtureEntry[];
+}
+
+// FNV-1a, short and stable across runs
+const hashString = (input: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+type AnyRequest = ChatRequest | ImageRequest | SpeechRequest | VideoRequest | LiveRequest;
+
+// Signals and callbacks are not part of the identity of a request
+export const fixtureKey = (kind: FixtureKind, request: AnyRequest): string => {
+    const { signal, callbacks, onUsage, ...rest } = request as any;
+    return `${kind}:${request.model}:${hashString(JSON.stringify(rest))}`;
+};
+
+export class FixtureStore {
+    private entries = new Map<string, FixtureEntry[]>();
+    // Replay cursor per key, so identical requests get successive recordings
+    private cursors = new Map<string, number>();
+
+    add(entry: FixtureEntry) {
+        const list = this.entries.get(entry.key) || [];
+        list.push(entry);
+        this.entries.set(entry.key, list);
+    }
+
+    load(file: FixtureFile) {
+        file.entries.forEach(entry => this.add(entry));
+    }
+
+    take(key: string): FixtureEntry | undefined {
+        const list = this.entries.get(key);
+        if (!list || list.length === 0) return undefined;
+        const cursor = this.cursors.get(key) || 0;
+        this.cursors.set(key, cursor + 1);
+        return list[cursor % list.length];
+    }
+
+    toFile(): FixtureFile {
+        return {
+            version: 1,
+            recordedAt: Date.now(),
+            entries: Array.from(this.entries.values()).flat()
+        };
+    }
+
+    get size(): number {
+        return Array.from(this.entries.values()).reduce((sum, list) => sum + list.length, 0);
+    }
+}
+
+export const blobToBase64 = async (blob: Blob): Promise<string> => {
+    const buffer = new Uint8Array(await blob.arrayBuffer());
+    let binary = '';
+    for (let i = 0; i < buffer.length; i++) {
+        binary += String.fromCharCode(buffer[i]);
+    }
+    return btoa(binary);
+};
+
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+};
+
+export const downloadFixtureFile = (store: FixtureStore, filename = `lynq-fixtures-${Date.now()}.json`) => {
+    const blob = new Blob([JSON.stringify(store.toFile(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // Same as the exporter: an immediate revoke can cancel the download
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,272 @@
+import { GoogleGenAI, LiveServerMessage, Modality } from "@google/genai";
+import { sleep } from './abort';
+import { SafetyBlockError } from './errors';
+import { TokenUsage } from '../../types';
+import { ChatRequest, ChatChunk, GroundingSource, GroundingSupport, ToolCall, ImageRequest, LiveRequest, LiveSession, ModelProvider, SpeechRequest, VideoRequest } from './types';
+
+const getAiClient = () => {
+    const apiKey = process.env.API_KEY || '';
+    return new GoogleGenAI({ apiKey });
+};
+
+const buildTools = (request: ChatRequest) => {
+    const tools: any[] = [];
+    if (request.grounding) tools.push({ googleSearch: {} });
+    if (request.tools?.length) {
+        tools.push({
+            functionDeclarations: request.tools.map(tool => ({
+                name: tool.name,
+                description: tool.description,
+                parametersJsonSchema: tool.parameters
+            }))
+        });
+    }
+    return tools.length > 0 ? tools : undefined;
+};
+
+const buildChatParams = (request: ChatRequest) => ({
+    model: request.model,
+    contents: request.contents,
+    config: {
+        tools: buildTools(request),
+        systemInstruction: request.systemInstruction,
+        maxOutputTokens: request.maxOutputTokens,
+        thinkingConfig: request.thinking && {
+            thinkingBudget: request.thinking.budget,
+            includeThoughts: request.thinking.includeThoughts
+        },
+        abortSignal: request.signal
+    }
+});
+
+const extractGroundingSources = (response: any): GroundingSource[] | undefined => {
+    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
+    const sources = groundingChunks
+        ?.filter((chunk: any) => chunk.web?.uri)
+        .map((chunk: any) => ({ title: chunk.web.title || 'Source', uri: chunk.web.uri, domain: chunk.web.domain }));
+    return sources?.length ? sources : undefined;
+};
+
+// Supports point at groundingChunks by index; resolve them to URIs so sources can be deduplicated later
+const extractGroundingSupports = (response: any): GroundingSupport[] | undefined => {
+    const metadata = response.candidates?.[0]?.groundingMetadata;
+    const supports = metadata?.groundingSupports
+        ?.filter((support: any) => support.segment?.text && support.groundingChunkIndices?.length)
+        .map((support: any) => ({
+            text: support.segment.text,
+            endByte: support.segment.endIndex,
+            sourceUris: support.groundingChunkIndices
+                .map((index: number) => metadata.groundingChunks?.[index]?.web?.uri)
+                .filter(Boolean)
+        }));
+    return supports?.length ? supports : undefined;
+};
+
+// Reads parts directly; `response.text` warns whenever function calls are present
+const extractText = (response: any): string => {
+    const parts = response.candidates?.[0]?.content?.parts || [];
+    return parts.filter((part: any) => part.text && !part.thought).map((part: any) => part.text).join('');
+};
+
+// Thought summaries arrive as text parts flagged `thought` when includeThoughts is on
+const extractThought = (response: any): string | undefined => {
+    const parts = response.candidates?.[0]?.content?.parts || [];
+    return parts.filter((part: any) => part.text && part.thought).map((part: any) => part.text).join('') || undefined;
+};
+
+const extractToolCalls = (response: any): ToolCall[] | undefined => {
+    const parts = response.candidates?.[0]?.content?.parts || [];
+    const calls = parts
+        .filter((part: any) => part.functionCall?.name)
+        .map((part: any) => ({
+            id: part.functionCall.id,
+            name: part.functionCall.name,
+            args: part.functionCall.args || {},
+            thoughtSignature: part.thoughtSignature
+        }));
+    return calls.length > 0 ? calls : undefined;
+};
+
+const extractUsage = (model: string, response: any): TokenUsage | undefined => {
+    const metadata = response.usageMetadata;
+    if (!metadata) return undefined;
+    return {
+        model,
+        inputTokens: metadata.promptTokenCount || 0,
+        outputTokens: metadata.candidatesTokenCount || 0,
+        thinkingTokens: metadata.thoughtsTokenCount || 0
+    };
+};
+
+// Veo renders fixed-length clips and reports no usage metadata
+const VIDEO_SECONDS = 8;
+
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+// Throws when the prompt or the candidate was blocked instead of answered
+const assertNotBlocked = (response: any) => {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) throw new SafetyBlockError(blockReason);
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason)) {
+        throw new SafetyBlockError(finishReason);
+    }
+};
+
+// AI Studio requires an explicitly selected paid key for Veo
+const ensureVideoKeySelected = async () => {
+    const win = window as any;
+    if (win.aistudio && win.aistudio.hasSelectedApiKey) {
+        const hasKey = await win.aistudio.hasSelectedApiKey();
+        if (!hasKey && win.aistudio.openSelectKey) {
+            await win.aistudio.openSelectKey();
+            const hasKeyNow = await win.aistudio.hasSelectedApiKey();
+            if (!hasKeyNow) {
+                throw new Error("API Key selection is required for Video Generation.");
+            }
+        }
+    }
+};
+
+export const geminiProvider: ModelProvider = {
+    id: 'gemini',
+    label: 'Google Gemini',
+
+    isConfigured: () => !!process.env.API_KEY,
+
+    async *streamChat(request: ChatRequest): AsyncGenerator<ChatChunk> {
+        const ai = getAiClient();
+        const stream = await ai.models.generateContentStream(buildChatParams(request));
+        for await (const chunk of stream) {
+            assertNotBlocked(chunk);
+            yield {
+                text: extractText(chunk),
+                thought: extractThought(chunk),
+                groundingSources: extractGroundingSources(chunk),
+                groundingSupports: extractGroundingSupports(chunk),
+                usage: extractUsage(request.model, chunk),
+                toolCalls: extractToolCalls(chunk)
+            };
+        }
+    },
+
+    async generateText(request: ChatRequest): Promise<string> {
+        const ai = getAiClient();
+        const response = await ai.models.generateContent(buildChatParams(request));
+        const usage = extractUsage(request.model, response);
+        if (usage) request.onUsage?.(usage);
+        assertNotBlocked(response);
+        return extractText(response);
+    },
+
+    async generateImage(request: ImageRequest): Promise<string | null> {
+        const ai = getAiClient();
+        const response = await ai.models.generateContent({
+            model: request.model,
+            contents: { parts: [...(request.images || []).map(inlineData => ({ inlineData })), { text: request.prompt }] },
+            config: { abortSignal: request.signal }
+        });
+        const usage = extractUsage(request.model, response);
+        if (usage) request.onUsage?.(usage);
+        assertNotBlocked(response);
+
+        const parts = response.candidates?.[0]?.content?.parts;
+        if (parts) {
+            for (const part of parts) {
+                if (part.inlineData && part.inlineData.data) {
+                    return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+                }
+            }
+        }
+        return null;
+    },
+
+    async generateSpeech(request: SpeechRequest): Promise<string | null> {
+        const ai = getAiClient();
+        const response = await ai.models.generateContent({
+            model: request.model,
+            contents: [{ parts: [{ text: request.text }] }],
+            config: {
+                responseModalities: [Modality.AUDIO],
+                speechConfig: {
+                    voiceConfig: {
+                        prebuiltVoiceConfig: { voiceName: request.voice },
+                    },
+                },
+                abortSignal: request.signal
+            },
+        });
+        const usage = extractUsage(request.model, response);
+        if (usage) request.onUsage?.(usage);
+        return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || null;
+    },
+
+    async generateVideo(request: VideoRequest): Promise<string> {
+        await ensureVideoKeySelected();
+
+        // Fresh client so a key selected just now is picked up
+        const ai = getAiClient();
+        const { signal } = request;
+
+        let operation = await ai.models.generateVideos({
+            model: request.model,
+            prompt: request.prompt,
+            config: {
+                numberOfVideos: 1,
+                resolution: '720p',
+                aspectRatio: '16:9',
+                abortSignal: signal
+            }
+        });
+        request.onStarted?.();
+
+        // Polling loop, interruptible between and during polls
+        while (!operation.done) {
+            await sleep(5000, signal); // Poll every 5s
+            operation = await ai.operations.getVideosOperation({ operation: operation, config: { abortSignal: signal } });
+        }
+
+        const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
+        if (!videoUri) {
+            throw new Error("Video generation completed but no URI returned.");
+        }
+        request.onUsage?.({ model: request.model, inputTokens: 0, outputTokens: 0, thinkingTokens: 0, videoSeconds: VIDEO_SECONDS });
+
+        // The download link needs the key appended; fetch it as a blob so <video> can play it
+        const response = await fetch(`${videoUri}&key=${process.env.API_KEY}`, { signal });
+        const blob = await response.blob();
+        return URL.createObjectURL(blob);
+    },
+
+    async connectLive(request: LiveRequest): Promise<LiveSession> {
+        if (!process.env.API_KEY) throw new Error("API Key Missing");
+        const ai = getAiClient();
+        const { callbacks } = request;
+
+        const session = await ai.live.connect({
+            model: request.model,
+            config: {
+                responseModalities: [Modality.AUDIO],
+                speechConfig: {
+                    voiceConfig: { prebuiltVoiceConfig: { voiceName: request.voice } }
+                },
+                systemInstruction: request.systemInstruction
+            },
+            callbacks: {
+                onopen: callbacks.onOpen,
+                onmessage: (message: LiveServerMessage) => {
+                    const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+                    if (base64Audio) callbacks.onAudio(base64Audio);
+                    if (message.serverContent?.interrupted) callbacks.onInterrupted();
+                },
+                onclose: callbacks.onClose,
+                onerror: callbacks.onError
+            }
+        });
+
+        return {
+            sendMedia: (media) => session.sendRealtimeInput({ media }),
+            close: () => session.close()
+        };
+    }
+};
@@ -0,0 +1,202 @@
+import { TokenUsage } from '../../types';
+import { sleep } from './abort';
+import { base64ToBlob, FixtureFile, FixtureStore, fixtureKey } from './fixtures';
+import { ChatChunk, ChatRequest, ImageRequest, LiveRequest, LiveSession, ModelProvider, SpeechRequest, ToolCall, VideoRequest } from './types';
+import { PLACEHOLDER_VIDEO_MP4 } from './placeholderVideo';
+
+// Offline provider. Replays recorded fixtures when a request matches one exactly,
+// otherwise answers with deterministic scripted responses so every flow still works.
+
+interface MockProviderOptions {
+    store?: FixtureStore;
+    fixturesUrl?: string; // JSON fixture file fetched on first use
+    delayMs?: number; // Pause between streamed chunks / poll steps
+}
+
+const lastUserText = (request: ChatRequest): string => {
+    const last = [...request.contents].reverse().find(turn => turn.role === 'user');
+    return last?.parts.map(p => p.text || '').join(' ').trim() || '';
+};
+
+// Offers the calculator whenever the prompt contains arithmetic, so the tool loop runs offline too
+const scriptedToolCall = (request: ChatRequest): ToolCall | null => {
+    const lastTurn = request.contents[request.contents.length - 1];
+    if (!request.tools?.some(t => t.name === 'calculator') || lastTurn?.parts.some(p => p.functionResponse)) return null;
+    const expression = /\d[\d\s.]*(?:[-+*/^%][\s(]*\d[\d\s.)]*)+/.exec(lastUserText(request));
+    return expression ? { id: `mock-call-${Date.now()}`, name: 'calculator', args: { expression: expression[0].trim() } } : null;
+};
+
+const scriptedReply = (request: ChatRequest): string => {
+    const lastTurn = request.contents[request.contents.length - 1];
+    const toolResult = lastTurn?.parts.find(p => p.functionResponse)?.functionResponse;
+    if (toolResult) {
+        return `**[Mock ${request.model}]** The ${toolResult.name} tool returned ${JSON.stringify(toolResult.response)}.`;
+    }
+
+    const prompt = lastUserText(request);
+    const turns = request.contents.length;
+    return `**[Mock ${request.model}]** You said: "${prompt.slice(0, 200)}". ` +
+        `This reply is scripted for offline development (${turns} turn${turns === 1 ? '' : 's'} of context).`;
+};
+
+// Same chars/4 rule of thumb the context builder uses
+const roughTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const chatUsage = (request: ChatRequest, reply: string): TokenUsage => {
+    const prompt = (request.systemInstruction || '') + request.contents.map(turn => turn.parts.map(p => p.text || '').join(' ')).join(' ');
+    return { model: request.model, inputTokens: roughTokens(prompt), outputTokens: roughTokens(reply), thinkingTokens: 0 };
+};
+
+const placeholderImage = (prompt: string): string => {
+    const label = prompt.slice(0, 40).replace(/[<>&"]/g, '');
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512">` +
+        `<rect width="100%" height="100%" fill="#121418"/>` +
+        `<text x="50%" y="50%" fill="#E6C25E" font-family="sans-serif" font-size="20" text-anchor="middle">${label}</text></svg>`;
+    return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+};
+
+// Short 24kHz mono 16-bit sine tone, the format real TTS/live audio arrives in
+const toneBase64 = (durationSec: number, frequency: number): string => {
+    const sampleRate = 24000;
+    const samples = new Int16Array(Math.floor(sampleRate * durationSec));
+    for (let i = 0; i < samples.length; i++) {
+        samples[i] = Math.round(Math.sin(2 * Math.PI * frequency * i / sampleRate) * 0.2 * 32767);
+    }
+    const bytes = new Uint8Array(samples.buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+};
+
+export const createMockProvider = (options: MockProviderOptions = {}): ModelProvider => {
+    const store = options.store || new FixtureStore();
+    const delayMs = options.delayMs ?? 40;
+    let fixturesLoaded: Promise<void> | null = null;
+
+    const ensureFixtures = () => {
+        if (!fixturesLoaded) {
+            fixturesLoaded = options.fixturesUrl
+                ? fetch(options.fixturesUrl)
+                    .then(res => res.json())
+                    .then((file: FixtureFile) => store.load(file))
+                    .catch(e => console.warn("Mock fixtures could not be loaded", e))
+                : Promise.resolve();
+        }
+        return fixturesLoaded;
+    };
+
+    return {
+        id: 'mock',
+        label: 'Mock (offline)',
+        isConfigured: () => true,
+
+        async *streamChat(request: ChatRequest): AsyncGenerator<ChatChunk> {
+            await ensureFixtures();
+            const fixture = store.take(fixtureKey('chat', request));
+            if (fixture?.chunks) {
+                for (const chunk of fixture.chunks) {
+                    await sleep(delayMs, request.signal);
+                    yield chunk;
+                }
+                return;
+            }
+
+            const toolCall = scriptedToolCall(request);
+            if (toolCall) {
+                await sleep(delayMs, request.signal);
+                yield { text: '', toolCalls: [toolCall], usage: chatUsage(request, '') };
+                return;
+            }
+
+            if (request.thinking?.includeThoughts) {
+                await sleep(delayMs, request.signal);
+                yield { text: '', thought: `**Planning the reply**\nScripted reasoning for "${lastUserText(request).slice(0, 60)}" with a budget of ${request.thinking.budget} tokens.` };
+            }
+
+            const reply = scriptedReply(request);
+            const words = reply.split(/(?<= )/);
+            for (let i = 0; i < words.length; i++) {
+                await sleep(delayMs, request.signal);
+                const isLast = i === words.length - 1;
+                yield {
+                    text: words[i],
+                    groundingSources: isLast && request.grounding
+                        ? [{ title: 'Mock Source', uri: 'https://example.com/mock-source' }]
+                        : undefined,
+                    // The first sentence cites the mock source
+                    groundingSupports: isLast && request.grounding
+                        ? [{ text: reply.split(/(?<=\.) /)[0], sourceUris: ['https://example.com/mock-source'] }]
+                        : undefined,
+                    usage: isLast ? chatUsage(request, reply) : undefined
+                };
+            }
+        },
+
+        async generateText(request: ChatRequest): Promise<string> {
+            await ensureFixtures();
+            const fixture = store.take(fixtureKey('text', request));
+            const text = fixture?.text ?? scriptedReply(request);
+            request.onUsage?.(chatUsage(request, text));
+            return text;
+        },
+
+        async generateImage(request: ImageRequest): Promise<string | null> {
+            await ensureFixtures();
+            await sleep(delayMs * 10, request.signal);
+            const fixture = store.take(fixtureKey('image', request));
+            request.onUsage?.({ model: request.model, inputTokens: roughTokens(request.prompt), outputTokens: 1290, thinkingTokens: 0 });
+            return fixture ? fixture.dataUrl ?? null : placeholderImage(request.prompt);
+        },
+
+        async generateSpeech(request: SpeechRequest): Promise<string | null> {
+            await ensureFixtures();
+            const fixture = store.take(fixtureKey('speech', request));
+            request.onUsage?.({ model: request.model, inputTokens: roughTokens(request.text), outputTokens: 0, thinkingTokens: 0 });
+            return fixture ? fixture.audio ?? null : toneBase64(0.4, 440);
+        },
+
+        async generateVideo(request: VideoRequest): Promise<string> {
+            await ensureFixtures();
+            request.onStarted?.();
+            // Simulate the long-running operation and its polling
+            for (let poll = 0; poll < 3; poll++) {
+                await sleep(delayMs * 10, request.signal);
+            }
+            const fixture = store.take(fixtureKey('video', request));
+            request.onUsage?.({ model: request.model, inputTokens: 0, outputTokens: 0, thinkingTokens: 0, videoSeconds: 8 });
+            if (fixture?.video) {
+                return URL.createObjectURL(base64ToBlob(fixture.video.base64, fixture.video.mimeType));
+            }
+            // No recording: a blank clip still exercises the message flow and the player
+            return URL.createObjectURL(base64ToBlob(PLACEHOLDER_VIDEO_MP4, 'video/mp4'));
+        },
+
+        async connectLive(request: LiveRequest): Promise<LiveSession> {
+            await ensureFixtures();
+            const fixture = store.take(fixtureKey('live', request));
+            const replies = fixture?.liveAudio?.length ? fixture.liveAudio : [toneBase64(0.3, 330)];
+            const { callbacks } = request;
+            let closed = false;
+            let replyIndex = 0;
+            let mediaCount = 0;
+
+            setTimeout(() => !closed && callbacks.onOpen(), delayMs);
+
+            return {
+                // Answer roughly every few seconds of incoming audio/video
+                sendMedia: () => {
+                    if (closed || ++mediaCount % 40 !== 0) return;
+                    callbacks.onAudio(replies[replyIndex % replies.length]);
+                    replyIndex++;
+                },
+                close: () => {
+                    if (closed) return;
+                    closed = true;
+                    callbacks.onClose();
+                }
+            };
+        }
+    };
+};
@@ -0,0 +1,145 @@
+import { AppMode } from '../../types';
+import { CHAT_ROUTES, TASK_ROUTES, TaskName } from './routes';
+
+// What each model can do. Routes name the default model per mode/task; users can
+// point a mode at any model here, or at a custom id when a preview gets renamed.
+
+export type ModelKind = 'chat' | 'image' | 'speech' | 'video' | 'live';
+
+export interface ModelCapabilities {
+    grounding: boolean; // Google Search tool
+    vision: boolean; // Image input
+    pdf: boolean; // PDF / document input
+    thinking: boolean; // Configurable reasoning budget
+    tools: boolean; // Function calling
+    maxOutputTokens: number;
+}
+
+export interface ModelInfo {
+    id: string;
+    label: string;
+    kind: ModelKind;
+    capabilities: ModelCapabilities;
+    maxConcurrency?: number; // Parallel requests allowed, defaults to the scheduler's
+    minThinkingBudget?: number; // Set when thinking can't be turned off
+    preview?: boolean;
+    custom?: boolean; // Added by the user in settings
+}
+
+// User choices, persisted by the app and pushed in with setModelPreferences
+export interface ModelPreferences {
+    chat: Partial<Record<AppMode, string>>;
+    tasks: Partial<Record<TaskName, string>>;
+    custom: ModelInfo[];
+}
+
+const MEDIA_ONLY: ModelCapabilities = { grounding: false, vision: false, pdf: false, thinking: false, tools: false, maxOutputTokens: 0 };
+
+export const BUILT_IN_MODELS: ModelInfo[] = [
+    {
+        id: 'gemini-flash-lite-latest',
+        label: 'Gemini Flash Lite',
+        kind: 'chat',
+        capabilities: { grounding: true, vision: true, pdf: true, thinking: true, tools: true, maxOutputTokens: 65536 }
+    },
+    {
+        id: 'gemini-2.5-flash',
+        label: 'Gemini 2.5 Flash',
+        kind: 'chat',
+        capabilities: { grounding: true, vision: true, pdf: true, thinking: true, tools: true, maxOutputTokens: 65536 }
+    },
+    {
+        id: 'gemini-2.5-pro',
+        label: 'Gemini 2.5 Pro',
+        kind: 'chat',
+        capabilities: { grounding: true, vision: true, pdf: true, thinking: true, tools: true, maxOutputTokens: 65536 },
+        maxConcurrency: 1,
+        minThinkingBudget: 128
+    },
+    {
+        id: 'gemini-3-pro-preview',
+        label: 'Gemini 3 Pro (preview)',
+        kind: 'chat',
+        capabilities: { grounding: true, vision: true, pdf: true, thinking: true, tools: true, maxOutputTokens: 65536 },
+        maxConcurrency: 1,
+        minThinkingBudget: 128,
+        preview: true
+    },
+    {
+        id: 'gemini-2.5-flash-image',
+        label: 'Gemini 2.5 Flash Image',
+        kind: 'image',
+        capabilities: { ...MEDIA_ONLY, vision: true, maxOutputTokens: 32768 }
+    },
+    {
+        id: 'gemini-2.5-flash-preview-tts',
+        label: 'Gemini 2.5 Flash TTS (preview)',
+        kind: 'speech',
+        capabilities: MEDIA_ONLY,
+        preview: true
+    },
+    {
+        id: 'veo-3.1-fast-generate-preview',
+        label: 'Veo 3.1 Fast (preview)',
+        kind: 'video',
+        capabilities: MEDIA_ONLY,
+        maxConcurrency: 1,
+        preview: true
+    },
+    {
+        id: 'veo-3.1-generate-preview',
+        label: 'Veo 3.1 (preview)',
+        kind: 'video',
+        capabilities: MEDIA_ONLY,
+        maxConcurrency: 1,
+        preview: true
+    },
+    {
+        id: 'gemini-2.5-flash-native-audio-preview-09-2025',
+        label: 'Gemini 2.5 Flash Native Audio (preview)',
+        kind: 'live',
+        capabilities: MEDIA_ONLY,
+        preview: true
+    }
+];
+
+const TASK_KINDS: Record<TaskName, ModelKind> = {
+    summary: 'chat',
+    intent: 'chat',
+    image: 'image',
+    speech: 'speech',
+    video: 'video',
+    live: 'live'
+};
+
+let preferences: ModelPreferences = { chat: {}, tasks: {}, custom: [] };
+
+export const setModelPreferences = (next: ModelPreferences) => {
+    preferences = next;
+};
+
+export const listModels = (kind?: ModelKind): ModelInfo[] => {
+    const all = [...BUILT_IN_MODELS, ...preferences.custom.filter(c => !BUILT_IN_MODELS.some(b => b.id === c.id))];
+    return kind ? all.filter(m => m.kind === kind) : all;
+};
+
+// Unknown ids (e.g. a model served by another provider) get conservative text-only capabilities
+export const getModelInfo = (id: string): ModelInfo => {
+    return listModels().find(m => m.id === id) || {
+        id,
+        label: id,
+        kind: 'chat',
+        capabilities: { grounding: false, vision: false, pdf: false, thinking: false, tools: false, maxOutputTokens: 8192 }
+    };
+};
+
+// Session override, then the user's default for the mode, then the route
+export const chatModelFor = (mode: AppMode, sessionOverride?: string): string => {
+    return sessionOverride || preferences.chat[mode] || CHAT_ROUTES[mode].model;
+};
+
+export const taskModelFor = (task: TaskName): string => {
+    return preferences.tasks[task] || TASK_ROUTES[task].model;
+};
+
+export const taskModelKind = (task: TaskName): ModelKind => TASK_KINDS[task];
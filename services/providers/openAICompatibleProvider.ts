@@ -0,0 +1,185 @@
+import { TokenUsage } from '../../types';
+import { HttpStatusError } from './errors';
+import { ChatChunk, ChatRequest, ChatTurn, ModelProvider, ToolCall } from './types';
+
+// Chat backend for any server speaking the OpenAI /chat/completions protocol
+// (OpenAI itself, OpenRouter, vLLM, llama.cpp, Ollama, LM Studio...)
+
+interface OpenAICompatibleOptions {
+    id: string;
+    label: string;
+    baseUrl: string; // e.g. http://localhost:11434/v1
+    apiKey?: string;
+}
+
+const decodeBase64Text = (data: string): string => {
+    return new TextDecoder().decode(Uint8Array.from(atob(data), c => c.charCodeAt(0)));
+};
+
+// Images go as image_url; text files are inlined; anything else (PDFs) as a file part, which
+// the OpenAI API reads and servers without file support reject with an error the user sees
+const toContentPart = ({ mimeType, data }: { mimeType: string; data: string }) => {
+    if (mimeType.startsWith('image/')) {
+        return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+    }
+    if (mimeType.startsWith('text/') || mimeType === 'application/json') {
+        return { type: 'text', text: decodeBase64Text(data) };
+    }
+    return { type: 'file', file: { filename: `attachment.${mimeType.split('/')[1] || 'bin'}`, file_data: `data:${mimeType};base64,${data}` } };
+};
+
+const toOpenAIMessages = (request: ChatRequest) => {
+    const messages: any[] = [];
+    if (request.systemInstruction) {
+        messages.push({ role: 'system', content: request.systemInstruction });
+    }
+    request.contents.forEach((turn: ChatTurn) => {
+        // Function calls and their results have dedicated message shapes
+        const calls = turn.parts.filter(part => part.functionCall);
+        if (calls.length > 0) {
+            messages.push({
+                role: 'assistant',
+                content: turn.parts.map(part => part.text || '').join('') || null,
+                tool_calls: calls.map(({ functionCall }) => ({
+                    id: functionCall!.id,
+                    type: 'function',
+                    function: { name: functionCall!.name, arguments: JSON.stringify(functionCall!.args) }
+                }))
+            });
+            return;
+        }
+        const results = turn.parts.filter(part => part.functionResponse);
+        if (results.length > 0) {
+            results.forEach(({ functionResponse }) => messages.push({
+                role: 'tool',
+                tool_call_id: functionResponse!.id,
+                content: JSON.stringify(functionResponse!.response)
+            }));
+            return;
+        }
+
+        const content = turn.parts.map(part => {
+            if (part.inlineData) return toContentPart(part.inlineData);
+            return { type: 'text', text: part.text || '' };
+        });
+        messages.push({ role: turn.role === 'model' ? 'assistant' : 'user', content });
+    });
+    return messages;
+};
+
+// Argument text comes straight from the model and can be truncated or malformed
+const parseToolArguments = (text: string): Pick<ToolCall, 'args' | 'argsError'> => {
+    if (!text) return { args: {} };
+    try {
+        return { args: JSON.parse(text) };
+    } catch (error: any) {
+        return { args: {}, argsError: `Arguments are not valid JSON (${error.message}): ${text}` };
+    }
+};
+
+const toTokenUsage = (model: string, usage: any): TokenUsage | undefined => {
+    if (!usage) return undefined;
+    const reasoning = usage.completion_tokens_details?.reasoning_tokens || 0;
+    return {
+        model,
+        inputTokens: usage.prompt_tokens || 0,
+        outputTokens: (usage.completion_tokens || 0) - reasoning,
+        thinkingTokens: reasoning
+    };
+};
+
+export const createOpenAICompatibleProvider = (options: OpenAICompatibleOptions): ModelProvider => {
+    const baseUrl = options.baseUrl.replace(/\/$/, '');
+
+    const post = async (request: ChatRequest, stream: boolean) => {
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {})
+            },
+            body: JSON.stringify({
+                model: request.model,
+                messages: toOpenAIMessages(request),
+                max_tokens: request.maxOutputTokens,
+                tools: request.tools?.length
+                    ? request.tools.map(tool => ({ type: 'function', function: tool }))
+                    : undefined,
+                stream,
+                // Ask for a final chunk carrying token counts
+                stream_options: stream ? { include_usage: true } : undefined
+            }),
+            signal: request.signal
+        });
+        if (!response.ok) {
+            const body = await response.text();
+            throw new HttpStatusError(response.status, `${response.status} ${response.statusText}: ${body}`);
+        }
+        return response;
+    };
+
+    return {
+        id: options.id,
+        label: options.label,
+
+        isConfigured: () => !!baseUrl,
+
+        async *streamChat(request: ChatRequest): AsyncGenerator<ChatChunk> {
+            const response = await post(request, true);
+            if (!response.body) return;
+
+            // Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+            // Tool calls arrive in fragments keyed by index: id and name first, then argument text
+            const pendingCalls: { id?: string; name: string; arguments: string }[] = [];
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+                for (const line of lines) {
+                    const data = line.replace(/^data:\s*/, '').trim();
+                    if (!data || data === '[DONE]' || !line.startsWith('data:')) continue;
+                    let json: any;
+                    try {
+                        json = JSON.parse(data);
+                    } catch {
+                        // Keep-alives and proxies sometimes send lines that aren't JSON
+                        continue;
+                    }
+                    json.choices?.[0]?.delta?.tool_calls?.forEach((fragment: any) => {
+                        const call = pendingCalls[fragment.index] ||= { name: '', arguments: '' };
+                        if (fragment.id) call.id = fragment.id;
+                        if (fragment.function?.name) call.name += fragment.function.name;
+                        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+                    });
+                    const delta = json.choices?.[0]?.delta?.content;
+                    // Reasoning servers stream their thinking under one of these names
+                    const thought = json.choices?.[0]?.delta?.reasoning_content || json.choices?.[0]?.delta?.reasoning;
+                    const usage = toTokenUsage(request.model, json.usage);
+                    if (delta || thought || usage) yield { text: delta || '', thought: thought || undefined, usage };
+                }
+            }
+
+            if (pendingCalls.length > 0) {
+                const toolCalls: ToolCall[] = pendingCalls.filter(Boolean).map(call => ({
+                    id: call.id,
+                    name: call.name,
+                    ...parseToolArguments(call.arguments)
+                }));
+                yield { text: '', toolCalls };
+            }
+        },
+
+        async generateText(request: ChatRequest): Promise<string> {
+            const response = await post(request, false);
+            const json = await response.json();
+            const usage = toTokenUsage(request.model, json.usage);
+            if (usage) request.onUsage?.(usage);
+            return json.choices?.[0]?.message?.content || '';
+        }
+    };
+};
@@ -0,0 +1,86 @@
+import { blobToBase64, FixtureStore, fixtureKey } from './fixtures';
+import { ChatChunk, ChatRequest, LiveRequest, LiveSession, ModelProvider } from './types';
+
+// Passes every call through to a real provider and captures the responses into
+// a FixtureStore, which the mock provider can replay later.
+export const createRecordingProvider = (inner: ModelProvider, store: FixtureStore): ModelProvider => {
+    const provider: ModelProvider = {
+        id: inner.id,
+        label: `${inner.label} (recording)`,
+        isConfigured: inner.isConfigured,
+
+        async *streamChat(request: ChatRequest): AsyncGenerator<ChatChunk> {
+            const chunks: ChatChunk[] = [];
+            for await (const chunk of inner.streamChat(request)) {
+                chunks.push(chunk);
+                yield chunk;
+            }
+            // Only complete streams are worth replaying
+            if (!request.signal?.aborted) {
+                store.add({ key: fixtureKey('chat', request), kind: 'chat', model: request.model, chunks });
+            }
+        },
+
+        async generateText(request: ChatRequest): Promise<string> {
+            const text = await inner.generateText(request);
+            store.add({ key: fixtureKey('text', request), kind: 'text', model: request.model, text });
+            return text;
+        }
+    };
+
+    if (inner.generateImage) {
+        const generateImage = inner.generateImage;
+        provider.generateImage = async (request) => {
+            const dataUrl = await generateImage(request);
+            store.add({ key: fixtureKey('image', request), kind: 'image', model: request.model, dataUrl });
+            return dataUrl;
+        };
+    }
+
+    if (inner.generateSpeech) {
+        const generateSpeech = inner.generateSpeech;
+        provider.generateSpeech = async (request) => {
+            const audio = await generateSpeech(request);
+            store.add({ key: fixtureKey('speech', request), kind: 'speech', model: request.model, audio });
+            return audio;
+        };
+    }
+
+    if (inner.generateVideo) {
+        const generateVideo = inner.generateVideo;
+        provider.generateVideo = async (request) => {
+            const url = await generateVideo(request);
+            // Object URLs die with the page, keep the actual bytes
+            const blob = await (await fetch(url)).blob();
+            store.add({
+                key: fixtureKey('video', request),
+                kind: 'video',
+                model: request.model,
+                video: { mimeType: blob.type || 'video/mp4', base64: await blobToBase64(blob) }
+            });
+            return url;
+        };
+    }
+
+    if (inner.connectLive) {
+        const connectLive = inner.connectLive;
+        provider.connectLive = async (request: LiveRequest): Promise<LiveSession> => {
+            const liveAudio: string[] = [];
+            const entry = { key: fixtureKey('live', request), kind: 'live' as const, model: request.model, liveAudio };
+            store.add(entry);
+
+            return connectLive({
+                ...request,
+                callbacks: {
+                    ...request.callbacks,
+                    onAudio: (base64Pcm) => {
+                        liveAudio.push(base64Pcm);
+                        request.callbacks.onAudio(base64Pcm);
+                    }
+                }
+            });
+        };
+    }
+
+    return provider;
+};
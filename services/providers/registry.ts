@@ -0,0 +1,49 @@
+import { ModelProvider } from './types';
+import { geminiProvider } from './geminiProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { createMockProvider } from './mockProvider';
+import { createRecordingProvider } from './recordingProvider';
+import { downloadFixtureFile, FixtureStore } from './fixtures';
+
+const providers = new Map<string, ModelProvider>();
+
+export const registerProvider = (provider: ModelProvider) => {
+    providers.set(provider.id, provider);
+};
+
+export const getProvider = (id: string): ModelProvider => {
+    const provider = providers.get(id);
+    if (!provider) {
+        throw new Error(`Unknown model provider: ${id}`);
+    }
+    return provider;
+};
+
+export const listProviders = (): ModelProvider[] => Array.from(providers.values());
+
+// Responses captured while LYNQ_RECORD is on
+export const recordedFixtures = new FixtureStore();
+
+// Recording is a dev-server feature; production builds never install the console hook
+const isRecording = import.meta.env.DEV && ['true', '1'].includes(process.env.LYNQ_RECORD || '');
+
+// Built-in backends
+if (isRecording) {
+    registerProvider(createRecordingProvider(geminiProvider, recordedFixtures));
+    // Dev hook: call from the console to save what was recorded so far
+    (window as any).lynqDownloadFixtures = () => downloadFixtureFile(recordedFixtures);
+    console.info("LYNQ: recording provider responses, run lynqDownloadFixtures() to save them.");
+} else {
+    registerProvider(geminiProvider);
+}
+
+registerProvider(createMockProvider({ fixturesUrl: process.env.LYNQ_FIXTURES_URL || undefined }));
+
+if (process.env.OPENAI_BASE_URL) {
+    registerProvider(createOpenAICompatibleProvider({
+        id: 'openai-compatible',
+        label: 'OpenAI-compatible',
+        baseUrl: process.env.OPENAI_BASE_URL,
+        apiKey: process.env.OPENAI_API_KEY
+    }));
+}
@@ -0,0 +1,39 @@
+import { AppMode } from '../../types';
+
+// Which provider and model serves each mode and task. Point a mode at another
+// registered provider here to swap backends without touching the UI.
+
+// LYNQ_PROVIDER=mock sends everything to the offline provider
+const DEFAULT_PROVIDER = process.env.LYNQ_PROVIDER || 'gemini';
+
+export interface ModelRoute {
+    provider: string;
+    model: string;
+}
+
+export interface ChatRoute extends ModelRoute {
+    grounding?: boolean;
+    maxOutputTokens: number;
+}
+
+export const CHAT_ROUTES: Record<AppMode, ChatRoute> = {
+    [AppMode.FAST]: { provider: DEFAULT_PROVIDER, model: 'gemini-flash-lite-latest', maxOutputTokens: 500 },
+    [AppMode.SMART]: { provider: DEFAULT_PROVIDER, model: 'gemini-2.5-flash', grounding: true, maxOutputTokens: 4000 },
+    [AppMode.CREATIVE]: { provider: DEFAULT_PROVIDER, model: 'gemini-3-pro-preview', grounding: true, maxOutputTokens: 4000 },
+    [AppMode.VOICE]: { provider: DEFAULT_PROVIDER, model: 'gemini-2.5-flash', maxOutputTokens: 4000 },
+    [AppMode.VIDEO]: { provider: DEFAULT_PROVIDER, model: 'gemini-2.5-flash', maxOutputTokens: 4000 },
+    // Searches and the final report; the report gets the full limit
+    [AppMode.RESEARCH]: { provider: DEFAULT_PROVIDER, model: 'gemini-2.5-flash', grounding: true, maxOutputTokens: 16000 }
+};
+
+export type TaskName = 'summary' | 'intent' | 'image' | 'speech' | 'video' | 'live';
+
+// Models below are defaults; see models.ts for user overrides and capabilities
+export const TASK_ROUTES: Record<TaskName, ModelRoute> = {
+    summary: { provider: DEFAULT_PROVIDER, model: 'gemini-flash-lite-latest' },
+    intent: { provider: DEFAULT_PROVIDER, model: 'gemini-flash-lite-latest' },
+    image: { provider: DEFAULT_PROVIDER, model: 'gemini-2.5-flash-image' },
+    speech: { provider: DEFAULT_PROVIDER, model: 'gemini-2.5-flash-preview-tts' },
+    video: { provider: DEFAULT_PROVIDER, model: 'veo-3.1-fast-generate-preview' },
+    live: { provider: DEFAULT_PROVIDER, model: 'gemini-2.5-flash-native-audio-preview-09-2025' }
+};
@@ -0,0 +1,145 @@
+import { TokenUsage } from '../../types';
+
+// Provider-neutral shapes shared by every model backend. The Gemini SDK types are
+// structurally compatible with these, other backends translate to their own wire format.
+
+export interface InlineData {
+  mimeType: string;
+  data: string; // Base64, no data: prefix
+}
+
+export interface FunctionCallPart {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface FunctionResponsePart {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface ChatPart {
+  text?: string;
+  inlineData?: InlineData;
+  functionCall?: FunctionCallPart;
+  functionResponse?: FunctionResponsePart;
+  thoughtSignature?: string; // Opaque, must be echoed back with the function call it came with
+}
+
+// Function the model may call; `parameters` is a JSON Schema object
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall extends FunctionCallPart {
+  thoughtSignature?: string;
+  argsError?: string; // The arguments weren't valid JSON; the tool is skipped and this goes back to the model
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  parts: ChatPart[];
+}
+
+export interface GroundingSource {
+  title: string;
+  uri: string;
+  domain?: string; // Publisher domain when `uri` is a redirect
+}
+
+// Part of the reply backed by sources. `text` is the segment as written in the reply,
+// `endByte` its UTF-8 end offset in the whole reply when the backend reports one.
+export interface GroundingSupport {
+  text: string;
+  endByte?: number;
+  sourceUris: string[];
+}
+
+// Called once a non-streaming call knows what it consumed
+export type UsageListener = (usage: TokenUsage) => void;
+
+export interface ChatRequest {
+  model: string;
+  contents: ChatTurn[];
+  systemInstruction?: string;
+  grounding?: boolean; // Enable web search grounding if the backend supports it
+  maxOutputTokens?: number;
+  tools?: ToolDeclaration[];
+  // Token budget for reasoning: -1 lets the model decide, 0 turns it off
+  thinking?: { budget: number; includeThoughts: boolean };
+  signal?: AbortSignal;
+  onUsage?: UsageListener; // generateText only; streams report usage on their chunks
+}
+
+// Incremental piece of a streamed reply; `text` is the delta since the last chunk.
+// `usage` is cumulative for the whole request, the last one seen wins.
+export interface ChatChunk {
+  text: string;
+  thought?: string; // Delta of the reasoning summary, never part of `text`
+  groundingSources?: GroundingSource[];
+  groundingSupports?: GroundingSupport[];
+  usage?: TokenUsage;
+  toolCalls?: ToolCall[]; // Complete calls, run them and send the results back in a new request
+}
+
+export interface ImageRequest {
+  model: string;
+  prompt: string;
+  images?: InlineData[]; // Source images to edit or use as reference
+  signal?: AbortSignal;
+  onUsage?: UsageListener;
+}
+
+export interface SpeechRequest {
+  model: string;
+  text: string;
+  voice: string;
+  signal?: AbortSignal;
+  onUsage?: UsageListener;
+}
+
+export interface VideoRequest {
+  model: string;
+  prompt: string;
+  signal?: AbortSignal;
+  onUsage?: UsageListener;
+  onStarted?: () => void; // The backend accepted the job; from here on it is billed
+}
+
+export interface LiveCallbacks {
+  onOpen: () => void;
+  onAudio: (base64Pcm: string) => void;
+  onInterrupted: () => void;
+  onClose: () => void;
+  onError: (error: unknown) => void;
+}
+
+export interface LiveRequest {
+  model: string;
+  voice: string;
+  systemInstruction: string;
+  callbacks: LiveCallbacks;
+}
+
+export interface LiveSession {
+  sendMedia: (media: InlineData) => void;
+  close: () => void;
+}
+
+export interface ModelProvider {
+  id: string;
+  label: string;
+  // False when required credentials are missing
+  isConfigured: () => boolean;
+  streamChat: (request: ChatRequest) => AsyncGenerator<ChatChunk>;
+  generateText: (request: ChatRequest) => Promise<string>;
+  // Optional capabilities; callers check before use
+  generateImage?: (request: ImageRequest) => Promise<string | null>; // Data URL
+  generateSpeech?: (request: SpeechRequest) => Promise<string | null>; // Base64 PCM
+  generateVideo?: (request: VideoRequest) => Promise<string>; // Object URL
+  connectLive?: (request: LiveRequest) => Promise<LiveSession>;
+}
@@ -0,0 +1,149 @@
+import { sleep } from './providers/abort';
+import { getModelInfo } from './providers/models';
+import { errorText, isQuotaError, isTransientError } from './serviceErrors';
+
+// Wraps provider calls with per-model concurrency limits and retries for quota
+// (429 / RESOURCE_EXHAUSTED) and transient failures, using exponential backoff
+// with jitter and honoring server retry hints.
+
+export interface RetryNotice {
+    attempt: number; // The attempt about to be made, starting at 2
+    maxAttempts: number;
+    delayMs: number;
+    reason: 'quota' | 'transient';
+}
+
+export type RetryListener = (notice: RetryNotice) => void;
+
+export interface ScheduleOptions {
+    model: string;
+    signal?: AbortSignal;
+    onRetry?: RetryListener;
+    maxAttempts?: number;
+    // Asked before each retry; false once repeating the task would redo billed work
+    canRetry?: () => boolean;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+const DEFAULT_CONCURRENCY = 2;
+
+// --- Concurrency ---
+
+interface ModelSlots {
+    active: number;
+    waiting: (() => void)[];
+}
+
+const slots = new Map<string, ModelSlots>();
+
+const acquireSlot = async (model: string, signal?: AbortSignal): Promise<() => void> => {
+    const limit = getModelInfo(model).maxConcurrency ?? DEFAULT_CONCURRENCY;
+    let entry = slots.get(model);
+    if (!entry) {
+        entry = { active: 0, waiting: [] };
+        slots.set(model, entry);
+    }
+    const state = entry;
+
+    if (state.active >= limit) {
+        await new Promise<void>((resolve, reject) => {
+            const onAbort = () => {
+                state.waiting = state.waiting.filter(w => w !== grant);
+                reject(new DOMException('Aborted', 'AbortError'));
+            };
+            const grant = () => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            };
+            if (signal?.aborted) return onAbort();
+            state.waiting.push(grant);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    } else {
+        state.active++;
+    }
+
+    let released = false;
+    return () => {
+        if (released) return;
+        released = true;
+        // Hand the slot straight to the next waiter, otherwise free it
+        const next = state.waiting.shift();
+        if (next) next();
+        else state.active--;
+    };
+};
+
+// --- Retry policy ---
+
+// Server hints: RetryInfo "retryDelay": "13s" or a Retry-After style "retry after 20"
+export const parseRetryAfterMs = (error: any): number | undefined => {
+    const text = errorText(error);
+    const delay = /retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/i.exec(text) || /retry[- ]after:?\s*(\d+(?:\.\d+)?)/i.exec(text);
+    return delay ? Math.ceil(parseFloat(delay[1]) * 1000) : undefined;
+};
+
+const backoffDelay = (attempt: number, error: any): number => {
+    const hinted = parseRetryAfterMs(error);
+    if (hinted !== undefined) return Math.min(hinted, MAX_DELAY_MS * 2);
+    // Exponential with "equal jitter": half fixed, half random
+    const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+    return Math.round(exponential / 2 + Math.random() * exponential / 2);
+};
+
+const retryReason = (error: any): RetryNotice['reason'] | null => {
+    if (isQuotaError(error)) return 'quota';
+    if (isTransientError(error)) return 'transient';
+    return null;
+};
+
+// --- Public API ---
+
+export const schedule = async <T>(task: () => Promise<T>, options: ScheduleOptions): Promise<T> => {
+    const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    const release = await acquireSlot(options.model, options.signal);
+    try {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await task();
+            } catch (error) {
+                const reason = retryReason(error);
+                if (!reason || attempt >= maxAttempts || options.signal?.aborted || options.canRetry?.() === false) throw error;
+                const delayMs = backoffDelay(attempt, error);
+                options.onRetry?.({ attempt: attempt + 1, maxAttempts, delayMs, reason });
+                await sleep(delayMs, options.signal);
+            }
+        }
+    } finally {
+        release();
+    }
+};
+
+// Streams are only retried until the first chunk arrives; after that a failure
+// would duplicate text, so it propagates to the caller.
+export async function* scheduleStream<T>(open: () => AsyncGenerator<T>, options: ScheduleOptions): AsyncGenerator<T> {
+    const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    const release = await acquireSlot(options.model, options.signal);
+    try {
+        for (let attempt = 1; ; attempt++) {
+            let received = false;
+            try {
+                for await (const chunk of open()) {
+                    received = true;
+                    yield chunk;
+                }
+                return;
+            } catch (error) {
+                const reason = retryReason(error);
+                if (received || !reason || attempt >= maxAttempts || options.signal?.aborted || options.canRetry?.() === false) throw error;
+                const delayMs = backoffDelay(attempt, error);
+                options.onRetry?.({ attempt: attempt + 1, maxAttempts, delayMs, reason });
+                await sleep(delayMs, options.signal);
+            }
+        }
+    } finally {
+        release();
+    }
+}
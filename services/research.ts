@@ -0,0 +1,273 @@
+import { AppMode, Attachment, AttachmentType, Citation, Message, Persona, ResearchStep, ServiceError, ServiceErrorKind, TokenUsage } from '../types';
+import { formatTranscript } from './contextBuilder';
+import { buildIdentityInstruction, modeOverride } from './personas';
+import { getProvider } from './providers/registry';
+import { chatModelFor, getModelInfo } from './providers/models';
+import { CHAT_ROUTES } from './providers/routes';
+import { GroundingSource, GroundingSupport } from './providers/types';
+import { RetryListener, schedule, scheduleStream } from './requestScheduler';
+import { extractCitationMarkers, insertCitationMarkers, isSameSource, mapCitations, sourceDomain } from '../utils/citations';
+import { isAbortError, notConfiguredError, serviceError, toServiceError } from './serviceErrors';
+
+// Deep research: plan sub-questions, run a grounded search for each, then write
+// one report from the notes. Sources are numbered once across all searches.
+
+// Snapshot of a run. `report` and `citations` stream in while writing, `sources` grow with each search.
+// `document` is only set on the final update; `cancelled` and `error` as in ResponseUpdate.
+export interface ResearchUpdate {
+    steps: ResearchStep[];
+    report: string;
+    citations?: Citation[];
+    sources: GroundingSource[];
+    usage: TokenUsage[]; // One entry per finished model call
+    document?: Attachment;
+    cancelled?: boolean;
+    error?: ServiceError;
+}
+
+const MIN_QUESTIONS = 3;
+const MAX_QUESTIONS = 5;
+const NOTES_MAX_TOKENS = 1500;
+
+// Models wrap JSON in fences or prose; take the first array and keep its strings
+const parseQuestions = (raw: string): string[] => {
+    const match = /\[[\s\S]*\]/.exec(raw);
+    if (!match) return [];
+    try {
+        const parsed = JSON.parse(match[0]);
+        if (!Array.isArray(parsed)) return [];
+        return parsed
+            .filter((q): q is string => typeof q === 'string' && q.trim().length > 0)
+            .map(q => q.trim())
+            .slice(0, MAX_QUESTIONS);
+    } catch {
+        return [];
+    }
+};
+
+const toDataUrl = (text: string, mimeType: string) => `data:${mimeType};base64,${btoa(unescape(encodeURIComponent(text)))}`;
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 50) || 'report';
+
+const buildBibliography = (sources: GroundingSource[]): string => {
+    if (sources.length === 0) return '';
+    return `## Bibliography\n\n${sources.map((s, i) => `${i + 1}. [${s.title}](${s.uri}) — ${sourceDomain(s)}`).join('\n')}`;
+};
+
+export async function* runResearch(
+    question: string,
+    history: Message[],
+    persona: Persona,
+    modelOverride?: string,
+    signal?: AbortSignal,
+    onRetry?: RetryListener
+): AsyncGenerator<ResearchUpdate> {
+    const route = CHAT_ROUTES[AppMode.RESEARCH];
+    const model = chatModelFor(AppMode.RESEARCH, modelOverride);
+    const { label, capabilities } = getModelInfo(model);
+    const provider = getProvider(route.provider);
+
+    const steps: ResearchStep[] = [{ id: 'plan', label: 'Planning sub-questions', status: 'running' }];
+    const sources: GroundingSource[] = [];
+    const usage: TokenUsage[] = [];
+    let report = '';
+    let citations: Citation[] | undefined;
+
+    const snapshot = (extra: Partial<ResearchUpdate> = {}): ResearchUpdate => ({
+        steps: steps.map(s => ({ ...s })),
+        report,
+        citations,
+        sources: [...sources],
+        usage: [...usage],
+        ...extra
+    });
+    const update = (id: string, patch: Partial<ResearchStep>) => {
+        const step = steps.find(s => s.id === id);
+        if (step) Object.assign(step, patch);
+    };
+    // Ends the run; whatever was still running is marked as failed
+    const finish = (extra: Partial<ResearchUpdate>, detail?: string): ResearchUpdate => {
+        steps.forEach(s => { if (s.status === 'running') Object.assign(s, { status: 'failed', detail }); });
+        return snapshot(extra);
+    };
+    const stop = (error: ServiceError) => finish({ error });
+    const cancel = () => finish({ cancelled: true }, 'Stopped');
+
+    if (!provider.isConfigured()) {
+        yield stop(notConfiguredError());
+        return;
+    }
+    if (!route.grounding || !capabilities.grounding) {
+        yield stop(serviceError(ServiceErrorKind.INVALID_INPUT, `${label} can't search the web. Pick another model for Research in settings.`));
+        return;
+    }
+
+    const identity = buildIdentityInstruction(persona);
+    const context = history.length > 0
+        ? `\nEARLIER IN THE CONVERSATION:\n${formatTranscript(history.slice(-6).map(m => ({ ...m, content: m.content.slice(0, 800) })))}\n`
+        : '';
+
+    try {
+        yield snapshot();
+
+        // 1. Plan
+        let planUsage: TokenUsage | undefined;
+        const plan = await schedule(() => provider.generateText({
+            model,
+            contents: [{ role: 'user', parts: [{ text: `Break the research question below into ${MIN_QUESTIONS} to ${MAX_QUESTIONS} focused sub-questions that together cover it. Each must be answerable with a web search.
+Reply with a JSON array of strings only, in the language of the question.
+${context}
+RESEARCH QUESTION:
+${question}` }] }],
+            maxOutputTokens: 600,
+            signal,
+            onUsage: reported => { planUsage = reported; }
+        }), { model, signal, onRetry });
+        if (planUsage) usage.push(planUsage);
+
+        // A plan we can't read still leaves the question itself to search
+        const questions = parseQuestions(plan);
+        if (questions.length === 0) questions.push(question);
+        update('plan', { status: 'done', detail: `${questions.length} sub-question${questions.length === 1 ? '' : 's'}` });
+        questions.forEach((q, i) => steps.push({ id: `search-${i}`, label: q, status: 'pending' }));
+        steps.push({ id: 'write', label: 'Writing the report', status: 'pending' });
+        yield snapshot();
+
+        // 2. Search, one sub-question at a time so each step reports as it lands
+        const notes: string[] = [];
+        for (let i = 0; i < questions.length; i++) {
+            if (signal?.aborted) break;
+            const id = `search-${i}`;
+            update(id, { status: 'running' });
+            yield snapshot();
+
+            let text = '';
+            let searchUsage: TokenUsage | undefined;
+            const sourceIndex = new Map<string, number>();
+            const supports: GroundingSupport[] = [];
+            try {
+                const stream = scheduleStream(() => provider.streamChat({
+                    model,
+                    contents: [{ role: 'user', parts: [{ text: questions[i] }] }],
+                    systemInstruction: `You are a research assistant gathering notes for a report on: "${question}".
+Search the web and answer the question with concise factual notes (max 250 words). Keep figures, dates, names and disagreements between sources.`,
+                    grounding: true,
+                    maxOutputTokens: NOTES_MAX_TOKENS,
+                    signal
+                }), { model, signal, onRetry });
+
+                for await (const chunk of stream) {
+                    if (signal?.aborted) break;
+                    text += chunk.text;
+                    if (chunk.usage) searchUsage = chunk.usage;
+                    chunk.groundingSources?.forEach(source => {
+                        if (sourceIndex.has(source.uri)) return;
+                        const existing = sources.findIndex(s => isSameSource(s, source));
+                        sourceIndex.set(source.uri, existing !== -1 ? existing : sources.push(source) - 1);
+                    });
+                    if (chunk.groundingSupports) supports.push(...chunk.groundingSupports);
+                }
+            } catch (error) {
+                if (signal?.aborted || isAbortError(error)) break;
+                // Keys and quotas fail every search the same way
+                const failure = toServiceError(error);
+                if (failure.kind === ServiceErrorKind.AUTH || failure.kind === ServiceErrorKind.QUOTA) throw error;
+                console.error("Research Search Error:", error);
+                update(id, { status: 'failed', detail: failure.message });
+                yield snapshot();
+                continue;
+            } finally {
+                if (searchUsage) usage.push(searchUsage);
+            }
+            if (signal?.aborted) break;
+
+            // Notes keep plain [n] footnotes in the shared numbering for the writer to reuse
+            const footnoted = insertCitationMarkers(text, mapCitations(text, supports, uri => sourceIndex.get(uri)))
+                .replace(/\]\(#cite-\d+\)/g, ']');
+            if (text.trim()) notes.push(`### ${questions[i]}\n${footnoted.trim()}`);
+            const found = new Set(sourceIndex.values()).size;
+            update(id, text.trim()
+                ? { status: 'done', detail: `${found} source${found === 1 ? '' : 's'}` }
+                : { status: 'failed', detail: 'No results' });
+            yield snapshot();
+        }
+
+        if (signal?.aborted) {
+            yield cancel();
+            return;
+        }
+        if (notes.length === 0) {
+            yield stop(serviceError(ServiceErrorKind.UNKNOWN, "None of the searches returned anything to write a report from."));
+            return;
+        }
+
+        // 3. Write
+        update('write', { status: 'running' });
+        yield snapshot();
+
+        const sourceList = sources.map((s, i) => `[${i + 1}] ${s.title} (${sourceDomain(s)})`).join('\n');
+        const style = modeOverride(persona, AppMode.RESEARCH) || `MODE: RESEARCH REPORT.
+Write a structured report in Markdown from the notes only, in the language of the question:
+- Start with a "# " title, then "## Summary" with the key findings in a few sentences.
+- Then 3 to 6 "## " sections that build on each other, and a closing "## Conclusion".
+- Cite every factual claim with the source numbers from the notes, like [1] or [2, 3], right after the claim.
+- Only use numbers from the source list. Do not add a bibliography, it is appended for you.
+- Say where the notes disagree or leave gaps instead of filling them in.`;
+
+        let writeUsage: TokenUsage | undefined;
+        let draft = '';
+        try {
+            const stream = scheduleStream(() => provider.streamChat({
+                model,
+                contents: [{ role: 'user', parts: [{ text: `RESEARCH QUESTION:\n${question}\n\nNOTES:\n${notes.join('\n\n')}\n\nSOURCES:\n${sourceList}` }] }],
+                systemInstruction: `${identity}\n${style}`,
+                maxOutputTokens: Math.min(route.maxOutputTokens, capabilities.maxOutputTokens),
+                signal
+            }), { model, signal, onRetry });
+
+            for await (const chunk of stream) {
+                if (signal?.aborted) break;
+                draft += chunk.text;
+                if (chunk.usage) writeUsage = chunk.usage;
+                ({ text: report, citations } = extractCitationMarkers(draft, sources.length));
+                yield snapshot();
+            }
+        } finally {
+            if (writeUsage) usage.push(writeUsage);
+        }
+
+        if (signal?.aborted) {
+            yield cancel();
+            return;
+        }
+        if (!draft.trim()) {
+            yield stop(serviceError(ServiceErrorKind.UNKNOWN, "Sorry bro, I couldn't write the report."));
+            return;
+        }
+
+        const bibliography = buildBibliography(sources);
+        if (bibliography) report = `${report.trimEnd()}\n\n${bibliography}`;
+        const cited = new Set((citations || []).flatMap(c => c.sources)).size;
+        update('write', { status: 'done', detail: `${cited} source${cited === 1 ? '' : 's'} cited` });
+
+        // The exported file keeps the model's [n] footnotes, which match the bibliography
+        const exported = bibliography ? `${draft.trimEnd()}\n\n${bibliography}\n` : `${draft.trimEnd()}\n`;
+        const title = /^#\s+(.+)$/m.exec(draft)?.[1] || question;
+        yield snapshot({
+            document: {
+                type: AttachmentType.DOCUMENT,
+                url: toDataUrl(exported, 'text/markdown'),
+                mimeType: 'text/markdown',
+                name: `research-${slugify(title)}.md`
+            }
+        });
+
+    } catch (error: any) {
+        if (signal?.aborted || isAbortError(error)) {
+            yield cancel();
+            return;
+        }
+        console.error("Research Error:", error);
+        yield stop(toServiceError(error));
+    }
+}
@@ -0,0 +1,151 @@
+// Runs one snippet in its own worker, then the worker is thrown away. Never import
+// this from the app; codeSandbox.ts starts it with `new Worker`. It keeps code off the
+// main thread and away from the app's state, but it is not a security boundary.
+
+import type { SandboxLanguage, SandboxLimits, SandboxResponse } from './codeSandbox';
+
+// Pyodide is the CPython WASM build, shipped with the app under /pyodide/ (see vite.config.ts)
+const PYODIDE_URL = new URL(`${import.meta.env.BASE_URL}pyodide/`, self.location.href).href;
+
+const scope = self as unknown as {
+    postMessage: (message: SandboxResponse) => void;
+    onmessage: ((event: MessageEvent) => void) | null;
+    close: () => void;
+    [key: string]: any;
+};
+
+let outputChars = 0;
+let limits: SandboxLimits;
+let heapBytes = () => 0;
+
+const send = (message: SandboxResponse) => scope.postMessage(message);
+
+// Checked every MEMORY_CHECK_MS while the run awaits, at every write and at the end
+const MEMORY_CHECK_MS = 200;
+
+// Best effort: browsers don't let a worker cap its own heap, and a timer can't fire while a
+// synchronous loop holds the thread, so that loop is only stopped by the timeout
+const checkMemory = () => {
+    const used = Math.max(heapBytes(), (performance as any).memory?.usedJSHeapSize || 0);
+    if (used > limits.memoryMb * 1024 * 1024) throw new RangeError(`Memory limit of ${limits.memoryMb} MB exceeded`);
+};
+
+const write = (stream: 'stdout' | 'stderr', text: string) => {
+    if (outputChars >= limits.maxOutputChars) return;
+    const remaining = limits.maxOutputChars - outputChars;
+    const chunk = text.length > remaining ? `${text.slice(0, remaining)}\n[output truncated]\n` : text;
+    outputChars += text.length;
+    send({ type: stream, text: chunk });
+    checkMemory();
+};
+
+const formatValue = (value: unknown): string => {
+    if (typeof value === 'string') return JSON.stringify(value);
+    if (typeof value === 'function') return `[Function ${value.name || 'anonymous'}]`;
+    if (value instanceof Error) return `${value.name}: ${value.message}`;
+    try {
+        const json = JSON.stringify(value, (_key, v) => typeof v === 'bigint' ? `${v}n` : v, 2);
+        return json === undefined ? String(value) : json;
+    } catch {
+        return String(value);
+    }
+};
+
+const BLOCKED_GLOBALS = ['fetch', 'XMLHttpRequest', 'WebSocket', 'WebTransport', 'EventSource', 'BroadcastChannel', 'importScripts', 'Worker', 'SharedWorker', 'indexedDB', 'caches'];
+
+// Takes network, storage and nested worker APIs away from user code, on the global scope and on
+// every prototype behind it. Best effort, not isolation: import() of a URL still reaches the network.
+const lockDown = () => {
+    for (let target = Object.getPrototypeOf(scope); target; target = Object.getPrototypeOf(target)) {
+        for (const name of BLOCKED_GLOBALS) {
+            if (!Object.prototype.hasOwnProperty.call(target, name)) continue;
+            try {
+                delete target[name];
+            } catch {
+                // Non-configurable: the getter on the scope below still shadows it
+            }
+        }
+    }
+    for (const name of BLOCKED_GLOBALS) {
+        try {
+            Object.defineProperty(scope, name, {
+                get: () => { throw new Error(`${name} is not available in the sandbox`); },
+                configurable: false
+            });
+        } catch {
+            // Some globals are not configurable in every browser
+        }
+    }
+};
+
+const runJavaScript = async (code: string): Promise<string | undefined> => {
+    const print = (stream: 'stdout' | 'stderr') => (...args: unknown[]) =>
+        write(stream, `${args.map(a => typeof a === 'string' ? a : formatValue(a)).join(' ')}\n`);
+    scope.console = { log: print('stdout'), info: print('stdout'), debug: print('stdout'), warn: print('stderr'), error: print('stderr') };
+    lockDown();
+    send({ type: 'started' });
+
+    let value: unknown;
+    try {
+        // Indirect eval returns the value of the last expression, like a REPL
+        value = (0, eval)(code);
+    } catch (error) {
+        // Top-level await only parses inside an async function; there is no completion value then
+        if (!(error instanceof SyntaxError) || !/await/.test(error.message)) throw error;
+        value = await new Function(`return (async () => {\n${code}\n})()`)();
+    }
+    if (value instanceof Promise) value = await value;
+    checkMemory();
+    return value === undefined ? undefined : formatValue(value);
+};
+
+const runPython = async (code: string): Promise<string | undefined> => {
+    const { loadPyodide } = await import(/* @vite-ignore */ `${PYODIDE_URL}pyodide.mjs`);
+    const pyodide = await loadPyodide({ indexURL: PYODIDE_URL });
+    heapBytes = () => pyodide._module?.HEAPU8?.length || 0;
+    pyodide.setStdout({ batched: (text: string) => write('stdout', `${text}\n`) });
+    pyodide.setStderr({ batched: (text: string) => write('stderr', `${text}\n`) });
+    lockDown();
+    send({ type: 'started' });
+
+    // Fresh globals per run; the value of a trailing expression is returned
+    const globals = pyodide.toPy({});
+    try {
+        const value = await pyodide.runPythonAsync(code, { globals });
+        checkMemory();
+        if (value === undefined) return undefined;
+        const repr = pyodide.globals.get('repr');
+        const text = repr(value) as string;
+        repr.destroy?.();
+        value?.destroy?.();
+        return text;
+    } finally {
+        globals.destroy();
+    }
+};
+
+// Python tracebacks are already formatted; keep them whole
+const errorText = (error: any): string => error?.name === 'PythonError' ? error.message.trim() : `${error?.name || 'Error'}: ${error?.message ?? error}`;
+
+scope.onmessage = async (event: MessageEvent<{ language: SandboxLanguage; code: string; limits: SandboxLimits }>) => {
+    limits = event.data.limits;
+    const monitor = setInterval(() => {
+        try {
+            checkMemory();
+        } catch (error) {
+            send({ type: 'done', error: errorText(error) });
+            scope.close();
+        }
+    }, MEMORY_CHECK_MS);
+    try {
+        const result = event.data.language === 'python'
+            ? await runPython(event.data.code)
+            : await runJavaScript(event.data.code);
+        send({ type: 'done', result });
+    } catch (error: any) {
+        send({ type: 'done', error: errorText(error) });
+    } finally {
+        clearInterval(monitor);
+    }
+    scope.close();
+};
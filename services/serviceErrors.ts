@@ -0,0 +1,90 @@
+import { ServiceError, ServiceErrorKind, TokenUsage } from '../types';
+import { SafetyBlockError } from './providers/errors';
+
+// Every service call resolves to one of these instead of throwing or
+// smuggling error text into message content. Both sides name both fields so
+// callers can read them without narrowing (the tsconfig isn't strict).
+// `usage` is set whenever the provider billed the call, failed or not.
+export type ServiceResult<T> =
+    | { ok: true; value: T; error?: undefined; usage?: TokenUsage }
+    | { ok: false; value?: undefined; error: ServiceError; usage?: TokenUsage };
+
+export const ok = <T>(value: T, usage?: TokenUsage): ServiceResult<T> => ({ ok: true, value, usage });
+
+export const fail = <T>(error: ServiceError, usage?: TokenUsage): ServiceResult<T> => ({ ok: false, error, usage });
+
+export const errorText = (error: any): string => {
+    if (error instanceof Error) return error.message;
+    try { return JSON.stringify(error); } catch { return String(error); }
+};
+
+// HTTP status from the fields SDK and provider errors carry; message text is never parsed
+export const errorStatus = (error: any): number | undefined => {
+    return [error?.status, error?.code, error?.error?.code].find(value => typeof value === 'number');
+};
+
+// True when a request was stopped through its AbortSignal
+export const isAbortError = (error: any): boolean => {
+    return error?.name === 'AbortError' || (error instanceof Error && /abort/i.test(error.message));
+};
+
+export const isQuotaError = (error: any): boolean => {
+    const text = errorText(error);
+    return errorStatus(error) === 429 || text.includes('RESOURCE_EXHAUSTED') || text.includes('Too Many Requests') || /quota/i.test(text);
+};
+
+// fetch() rejects with a TypeError when the request never got a response; the wording differs per browser
+const isNetworkError = (error: any): boolean => {
+    return error instanceof TypeError && /Failed to fetch|fetch failed|NetworkError|Load failed|ECONNRESET/i.test(error.message);
+};
+
+export const isTransientError = (error: any): boolean => {
+    const status = errorStatus(error);
+    if (status && status >= 500) return true;
+    return isNetworkError(error) || ['UNAVAILABLE', 'DEADLINE_EXCEEDED'].includes(error?.error?.status);
+};
+
+const isAuthError = (error: any): boolean => {
+    const status = errorStatus(error);
+    const text = errorText(error);
+    return status === 401 || status === 403 || /API[ _]?key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(text);
+};
+
+const isInvalidInputError = (error: any): boolean => {
+    return errorStatus(error) === 400 || errorText(error).includes('INVALID_ARGUMENT');
+};
+
+export const serviceError = (kind: ServiceErrorKind, message: string, detail?: string): ServiceError => ({
+    kind,
+    message,
+    detail,
+    retryable: kind !== ServiceErrorKind.INVALID_INPUT && kind !== ServiceErrorKind.SAFETY
+});
+
+export const notConfiguredError = () =>
+    serviceError(ServiceErrorKind.AUTH, "Bro, API Key is missing. Please check process.env.API_KEY.");
+
+// Maps anything thrown by a provider onto the shared error kinds
+export const toServiceError = (error: any): ServiceError => {
+    const detail = errorText(error);
+
+    if (isAbortError(error)) {
+        return serviceError(ServiceErrorKind.CANCELLED, "Generation stopped.");
+    }
+    if (error instanceof SafetyBlockError) {
+        return serviceError(ServiceErrorKind.SAFETY, "That request was blocked by safety filters. Try rephrasing it.", error.reason);
+    }
+    if (isQuotaError(error)) {
+        return serviceError(ServiceErrorKind.QUOTA, "You've hit the usage limit. Please wait a bit before trying again.", detail);
+    }
+    if (isAuthError(error)) {
+        return serviceError(ServiceErrorKind.AUTH, "The API key is missing or invalid. Check your key and plan.", detail);
+    }
+    if (isInvalidInputError(error)) {
+        return serviceError(ServiceErrorKind.INVALID_INPUT, "The model couldn't accept that input. Check attachments or shorten the prompt.", detail);
+    }
+    if (isTransientError(error)) {
+        return serviceError(ServiceErrorKind.NETWORK, "Couldn't reach the model. Check your connection and retry.", detail);
+    }
+    return serviceError(ServiceErrorKind.UNKNOWN, "Sorry bro, something went wrong.", detail);
+};
@@ -0,0 +1,72 @@
+import { ChatSession, Message } from '../../types';
+
+// IndexedDB schema. Sessions and messages live in separate stores so a new reply
+// writes one record instead of the whole history; binary payloads go to `media`.
+
+const DB_NAME = 'lynq';
+const DB_VERSION = 1;
+
+export const STORES = {
+    sessions: 'sessions',
+    messages: 'messages',
+    media: 'media',
+    meta: 'meta'
+} as const;
+
+// Everything but the messages; `position` keeps the sidebar order
+export type SessionRecord = Omit<ChatSession, 'messages'> & { position: number };
+
+// `position` keeps the session's message order; media fields hold `media:<id>` references
+export type MessageRecord = Message & { sessionId: string; position: number };
+
+// Keyed by the SHA-256 of the blob, shared by every message that references it
+export interface MediaRecord {
+    id: string;
+    blob: Blob;
+}
+
+let opening: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (opening) return opening;
+    opening = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this browser'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+            db.createObjectStore(STORES.messages, { keyPath: 'id' });
+            db.createObjectStore(STORES.media, { keyPath: 'id' });
+            db.createObjectStore(STORES.meta);
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            // Another tab upgrading the schema; let it, this tab reopens on next use
+            db.onversionchange = () => {
+                db.close();
+                opening = null;
+            };
+            resolve(db);
+        };
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('The database is blocked by another open tab'));
+    });
+    // A failed open shouldn't stick, the next call tries again
+    opening.catch(() => { opening = null; });
+    return opening;
+};
+
+export const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+// Resolves once every write in the transaction has committed
+export const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+});
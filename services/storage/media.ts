@@ -0,0 +1,115 @@
+import { AttachmentType, Message } from '../../types';
+import { base64ToBlob, blobToBase64 } from '../providers/fixtures';
+import { MediaRecord, MessageRecord } from './database';
+
+// Attachments and voice-overs are stored as blobs keyed by their SHA-256, so an image
+// uploaded twice or carried over by an edited message is stored once. Messages keep
+// a `media:<id>` reference in place of the data. Loaded messages get object URLs back
+// in every media field; the bytes are only read when a request or an export needs them.
+
+const MEDIA_REF = 'media:';
+
+const refId = (value?: string): string | null => value?.startsWith(MEDIA_REF) ? value.slice(MEDIA_REF.length) : null;
+
+const dataUrlToBlob = (value: string): Blob | null => {
+    const match = /^data:([^;,]*)(;base64)?,([\s\S]*)$/.exec(value);
+    if (!match) return null;
+    const mimeType = match[1] || 'application/octet-stream';
+    return match[2] ? base64ToBlob(match[3], mimeType) : new Blob([decodeURIComponent(match[3])], { type: mimeType });
+};
+
+// Object URLs only resolve while the page that made them is alive; dead ones are kept as they are
+export const urlToBlob = async (value: string): Promise<Blob | null> => {
+    if (value.startsWith('data:')) return dataUrlToBlob(value);
+    if (!value.startsWith('blob:')) return null;
+    try {
+        return await (await fetch(value)).blob();
+    } catch {
+        return null;
+    }
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+// Data URL behind an attachment's `url` or `base64`; undefined when an object URL no longer resolves
+export const readDataUrl = async (value?: string): Promise<string | undefined> => {
+    if (!value?.startsWith('blob:')) return value;
+    const blob = await urlToBlob(value);
+    return blob ? blobToDataUrl(blob) : undefined;
+};
+
+// Voice-overs are played and exported from base64 PCM
+export const readAudioData = async (value?: string): Promise<string | undefined> => {
+    if (!value?.startsWith('blob:')) return value;
+    const blob = await urlToBlob(value);
+    return blob ? blobToBase64(blob) : undefined;
+};
+
+// What the API needs from a message: its attachment data read into memory for one request.
+// Generated images only have a `url`, which becomes their data.
+export const withRequestMedia = async (message: Message): Promise<Message> => {
+    if (!message.attachments) return message;
+    const attachments = await Promise.all(message.attachments.map(async att => {
+        const source = att.base64 || (att.type === AttachmentType.IMAGE && att.url.startsWith('blob:') ? att.url : undefined);
+        return { ...att, base64: await readDataUrl(source) };
+    }));
+    return { ...message, attachments };
+};
+
+const hashBlob = async (blob: Blob): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const toMessageRecord = async (message: Message, sessionId: string, position: number): Promise<{ record: MessageRecord; media: MediaRecord[] }> => {
+    const media = new Map<string, Blob>();
+    const stash = async (value: string | undefined, toBlob: (value: string) => Promise<Blob | null>): Promise<string | undefined> => {
+        const blob = value ? await toBlob(value) : null;
+        if (!blob) return value;
+        const id = await hashBlob(blob);
+        media.set(id, blob);
+        return `${MEDIA_REF}${id}`;
+    };
+
+    const attachments = message.attachments && await Promise.all(message.attachments.map(async att => ({
+        ...att,
+        url: await stash(att.url, urlToBlob),
+        base64: await stash(att.base64, urlToBlob)
+    })));
+    const audioData = await stash(message.audioData, async value => value.startsWith('blob:') ? urlToBlob(value) : base64ToBlob(value, 'audio/pcm'));
+
+    return {
+        record: { ...message, attachments, audioData, sessionId, position },
+        media: Array.from(media, ([id, blob]) => ({ id, blob }))
+    };
+};
+
+// Media a stored message points at
+export const mediaIdsOf = (record: MessageRecord): string[] => {
+    const refs = [record.audioData, ...(record.attachments || []).flatMap(att => [att.url, att.base64])];
+    return refs.map(refId).filter((id): id is string => !!id);
+};
+
+// Media references come back as object URLs from `urlOf`. Media that went missing
+// leaves an empty attachment URL, no attachment data and no voice-over.
+export const fromMessageRecord = (record: MessageRecord, urlOf: (id: string) => string | undefined): Message => {
+    const { sessionId, position, ...message } = record;
+    const restore = (value?: string): string | undefined => {
+        const id = refId(value);
+        return id ? urlOf(id) : value;
+    };
+
+    const attachments = message.attachments?.map(att => ({ ...att, url: restore(att.url) || '', base64: restore(att.base64) }));
+    return { ...message, attachments, audioData: restore(message.audioData) };
+};
+
+// Object URLs held by messages, to revoke once no message uses them
+export const objectUrlsOf = (messages: Message[]): Set<string> => {
+    const values = messages.flatMap(m => [m.audioData, ...(m.attachments || []).flatMap(att => [att.url, att.base64])]);
+    return new Set(values.filter((value): value is string => !!value?.startsWith('blob:')));
+};
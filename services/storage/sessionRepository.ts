@@ -0,0 +1,245 @@
+import { ChatSession, Message } from '../../types';
+import { normalizeSessionSettings } from '../../utils/sessionSettings';
+import { normalizeSessionTree } from '../../utils/messageTree';
+import { MediaRecord, MessageRecord, openDatabase, requestResult, SessionRecord, STORES, transactionDone } from './database';
+import { fromMessageRecord, mediaIdsOf, objectUrlsOf, toMessageRecord } from './media';
+
+// Loads and saves chats. App hands over the whole `sessions` array on every change;
+// only sessions and messages whose objects changed since the last save are written.
+
+// Pre-IndexedDB storage, read once and removed after the copy is read back
+const LEGACY_KEY = 'lynq_sessions';
+const MIGRATED_KEY = 'legacyMigratedAt';
+
+interface SavedMessage {
+    message: Message;
+    sessionId: string;
+    position: number;
+    mediaIds: string[];
+}
+
+// What the database holds, by object identity
+let saved = {
+    sessions: new Map<string, { session: ChatSession; position: number }>(),
+    messages: new Map<string, SavedMessage>()
+};
+let storedMedia = new Set<string>();
+
+// Object URLs handed out to attachments, revoked once their last message is gone
+let liveUrls = new Set<string>();
+
+let pending: ChatSession[] | null = null;
+let writing: Promise<void> | null = null;
+let failing = false;
+let errorListener: ((error: unknown | null) => void) | null = null;
+
+// Told about every failed save, and with null once a save goes through again.
+// Nothing is lost in between: the next save retries whatever didn't commit.
+export const setSaveErrorListener = (listener: ((error: unknown | null) => void) | null) => {
+    errorListener = listener;
+};
+
+const writeChanges = async (sessions: ChatSession[]) => {
+    const next: typeof saved = { sessions: new Map(), messages: new Map() };
+    const changed: { message: Message; sessionId: string; position: number }[] = [];
+
+    sessions.forEach((session, position) => {
+        next.sessions.set(session.id, { session, position });
+        session.messages.forEach((message, index) => {
+            const before = saved.messages.get(message.id);
+            if (before && before.message === message && before.sessionId === session.id && before.position === index) {
+                next.messages.set(message.id, before);
+            } else {
+                changed.push({ message, sessionId: session.id, position: index });
+            }
+        });
+    });
+
+    // Reading and hashing media is async, and a transaction commits as soon as it's left idle,
+    // so everything is prepared before the transaction opens
+    const prepared = await Promise.all(changed.map(async entry => {
+        const { record, media } = await toMessageRecord(entry.message, entry.sessionId, entry.position);
+        next.messages.set(entry.message.id, { ...entry, mediaIds: mediaIdsOf(record) });
+        return { record, media };
+    }));
+    const referenced = new Set(Array.from(next.messages.values()).flatMap(m => m.mediaIds));
+
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.sessions, STORES.messages, STORES.media], 'readwrite');
+    const sessionStore = tx.objectStore(STORES.sessions);
+    const messageStore = tx.objectStore(STORES.messages);
+    const mediaStore = tx.objectStore(STORES.media);
+
+    next.sessions.forEach(({ session, position }, id) => {
+        const previous = saved.sessions.get(id);
+        if (previous?.session === session && previous.position === position) return;
+        const { messages, ...rest } = session;
+        const record: SessionRecord = { ...rest, position };
+        sessionStore.put(record);
+    });
+
+    const written = new Set<string>();
+    prepared.forEach(({ record, media }) => {
+        messageStore.put(record);
+        media.forEach(item => {
+            if (storedMedia.has(item.id) || written.has(item.id)) return;
+            mediaStore.put(item);
+            written.add(item.id);
+        });
+    });
+
+    saved.sessions.forEach((_, id) => {
+        if (!next.sessions.has(id)) sessionStore.delete(id);
+    });
+    saved.messages.forEach((_, id) => {
+        if (!next.messages.has(id)) messageStore.delete(id);
+    });
+    storedMedia.forEach(id => {
+        if (!referenced.has(id)) mediaStore.delete(id);
+    });
+
+    await transactionDone(tx);
+    saved = next;
+    storedMedia = new Set([...storedMedia, ...written].filter(id => referenced.has(id)));
+};
+
+const flush = async () => {
+    while (pending) {
+        const sessions = pending;
+        pending = null;
+        try {
+            await writeChanges(sessions);
+            if (failing) errorListener?.(null);
+            failing = false;
+        } catch (error) {
+            console.error("Failed to save sessions", error);
+            failing = true;
+            errorListener?.(error);
+        }
+    }
+};
+
+const releaseObjectUrls = (sessions: ChatSession[]) => {
+    const urls = objectUrlsOf(sessions.flatMap(s => s.messages));
+    liveUrls.forEach(url => {
+        if (!urls.has(url)) URL.revokeObjectURL(url);
+    });
+    liveUrls = urls;
+};
+
+// Queues a save of the full list; overlapping calls collapse into one write of the latest list.
+// Object URLs of deleted messages and sessions are revoked right away, their blobs are
+// dropped from the database with the write.
+export const saveSessions = (sessions: ChatSession[]): Promise<void> => {
+    releaseObjectUrls(sessions);
+    pending = sessions;
+    if (!writing) {
+        writing = flush().finally(() => { writing = null; });
+    }
+    return writing;
+};
+
+// True when every session and message of the copy can be read back from the database
+const isCopyStored = async (db: IDBDatabase, sessions: ChatSession[]): Promise<boolean> => {
+    const tx = db.transaction([STORES.sessions, STORES.messages], 'readonly');
+    const [sessionKeys, messageKeys] = await Promise.all([
+        requestResult(tx.objectStore(STORES.sessions).getAllKeys()),
+        requestResult(tx.objectStore(STORES.messages).getAllKeys())
+    ]);
+    const storedSessions = new Set(sessionKeys);
+    const storedMessages = new Set(messageKeys);
+    return sessions.every(s => storedSessions.has(s.id) && s.messages.every(m => storedMessages.has(m.id)));
+};
+
+// One-time copy of the localStorage sessions. It is only marked done, and the key only
+// removed, once the copy reads back complete; until then every load tries again.
+const migrateLegacySessions = async (db: IDBDatabase) => {
+    const legacy = localStorage.getItem(LEGACY_KEY);
+    if (!legacy) return;
+
+    const migratedAt = await requestResult(db.transaction(STORES.meta).objectStore(STORES.meta).get(MIGRATED_KEY));
+    if (!migratedAt) {
+        let sessions: ChatSession[];
+        try {
+            sessions = JSON.parse(legacy).map(normalizeSessionTree).map(normalizeSessionSettings);
+        } catch (error) {
+            console.error("Legacy sessions are unreadable, leaving them in place", error);
+            return;
+        }
+        await writeChanges(sessions);
+        if (!(await isCopyStored(db, sessions))) {
+            console.error("Migrated sessions didn't read back, keeping the localStorage copy");
+            return;
+        }
+        const tx = db.transaction(STORES.meta, 'readwrite');
+        tx.objectStore(STORES.meta).put(Date.now(), MIGRATED_KEY);
+        await transactionDone(tx);
+    }
+    localStorage.removeItem(LEGACY_KEY);
+};
+
+// Each message's media by key. Stored blobs are handles to the browser's disk copy,
+// so an object URL for one doesn't read it into memory.
+const readMessageMedia = async (db: IDBDatabase, messageRecords: MessageRecord[]): Promise<{ urlOf: (id: string) => string | undefined; storedIds: IDBValidKey[] }> => {
+    const tx = db.transaction(STORES.media, 'readonly');
+    const store = tx.objectStore(STORES.media);
+    const ids = Array.from(new Set(messageRecords.flatMap(mediaIdsOf)));
+    const [storedIds, records] = await Promise.all([
+        requestResult(store.getAllKeys()),
+        Promise.all(ids.map(id => requestResult(store.get(id) as IDBRequest<MediaRecord | undefined>)))
+    ]);
+
+    const blobs = new Map(records.filter((r): r is MediaRecord => !!r).map(r => [r.id, r.blob]));
+    // One object URL per blob, however many messages share it
+    const urls = new Map<string, string>();
+    const urlOf = (id: string): string | undefined => {
+        const blob = blobs.get(id);
+        if (!blob) return undefined;
+        if (!urls.has(id)) urls.set(id, URL.createObjectURL(blob));
+        return urls.get(id);
+    };
+    return { urlOf, storedIds };
+};
+
+// Every stored chat in sidebar order, media as object URLs
+export const loadSessions = async (): Promise<ChatSession[]> => {
+    const db = await openDatabase();
+    await migrateLegacySessions(db);
+
+    const tx = db.transaction([STORES.sessions, STORES.messages], 'readonly');
+    const [sessionRecords, messageRecords] = await Promise.all([
+        requestResult(tx.objectStore(STORES.sessions).getAll() as IDBRequest<SessionRecord[]>),
+        requestResult(tx.objectStore(STORES.messages).getAll() as IDBRequest<MessageRecord[]>)
+    ]);
+    const { urlOf, storedIds } = await readMessageMedia(db, messageRecords);
+
+    const bySession = new Map<string, MessageRecord[]>();
+    messageRecords.forEach(record => {
+        const list = bySession.get(record.sessionId) || [];
+        list.push(record);
+        bySession.set(record.sessionId, list);
+    });
+
+    const ordered = [...sessionRecords].sort((a, b) => a.position - b.position);
+    const sessions = ordered.map(({ position, ...record }) => {
+        const records = (bySession.get(record.id) || []).sort((a, b) => a.position - b.position);
+        const messages = records.map(r => fromMessageRecord(r, urlOf));
+        return normalizeSessionSettings(normalizeSessionTree({ ...record, messages }));
+    });
+
+    // What was just read is what's stored; keeps the first save after loading from rewriting it all
+    const mediaIds = new Map(messageRecords.map(r => [r.id, mediaIdsOf(r)]));
+    saved = { sessions: new Map(), messages: new Map() };
+    sessions.forEach((session, position) => {
+        saved.sessions.set(session.id, { session, position });
+        session.messages.forEach((message, index) => saved.messages.set(message.id, {
+            message,
+            sessionId: session.id,
+            position: index,
+            mediaIds: mediaIds.get(message.id) || []
+        }));
+    });
+    storedMedia = new Set(storedIds.map(String));
+    liveUrls = objectUrlsOf(sessions.flatMap(s => s.messages));
+    return sessions;
+};
@@ -0,0 +1,136 @@
+import { Tool, ToolInputError } from './types';
+
+// Recursive-descent evaluator; never hands the expression to eval()
+//   expr   := term (('+' | '-') term)*
+//   term   := unary (('*' | '/' | '%') unary)*
+//   unary  := ('-' | '+') unary | power
+//   power  := primary ('^' unary)?
+//   primary := number | constant | name '(' expr (',' expr)* ')' | '(' expr ')'
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+    sqrt: Math.sqrt,
+    cbrt: Math.cbrt,
+    abs: Math.abs,
+    round: Math.round,
+    floor: Math.floor,
+    ceil: Math.ceil,
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan,
+    asin: Math.asin,
+    acos: Math.acos,
+    atan: Math.atan,
+    ln: Math.log,
+    log: Math.log10,
+    log2: Math.log2,
+    exp: Math.exp,
+    min: Math.min,
+    max: Math.max,
+    pow: Math.pow
+};
+
+const CONSTANTS: Record<string, number> = {
+    pi: Math.PI,
+    e: Math.E
+};
+
+export const evaluateExpression = (input: string): number => {
+    const tokens = input.replace(/×/g, '*').replace(/÷/g, '/').match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|[a-z_][a-z0-9_]*|\*\*|[-+*/%^(),]|\S/gi) || [];
+    let position = 0;
+
+    const peek = () => tokens[position];
+    const next = () => tokens[position++];
+    const expect = (token: string) => {
+        if (next() !== token) throw new ToolInputError(`Expected "${token}" in expression`);
+    };
+
+    const parseExpr = (): number => {
+        let value = parseTerm();
+        while (peek() === '+' || peek() === '-') {
+            value = next() === '+' ? value + parseTerm() : value - parseTerm();
+        }
+        return value;
+    };
+
+    const parseTerm = (): number => {
+        let value = parseUnary();
+        while (peek() === '*' || peek() === '/' || peek() === '%') {
+            const op = next();
+            const right = parseUnary();
+            value = op === '*' ? value * right : op === '/' ? value / right : value % right;
+        }
+        return value;
+    };
+
+    // -2^2 is -(2^2), as in math notation
+    const parseUnary = (): number => {
+        if (peek() === '-') {
+            next();
+            return -parseUnary();
+        }
+        if (peek() === '+') {
+            next();
+            return parseUnary();
+        }
+        return parsePower();
+    };
+
+    const parsePower = (): number => {
+        const base = parsePrimary();
+        if (peek() === '^' || peek() === '**') {
+            next();
+            return Math.pow(base, parseUnary()); // Right-associative
+        }
+        return base;
+    };
+
+    const parsePrimary = (): number => {
+        const token = next();
+        if (token === undefined) throw new ToolInputError('Unexpected end of expression');
+        if (token === '(') {
+            const value = parseExpr();
+            expect(')');
+            return value;
+        }
+        if (/^\d/.test(token)) return parseFloat(token);
+
+        const name = token.toLowerCase();
+        if (name in CONSTANTS) return CONSTANTS[name];
+        if (name in FUNCTIONS) {
+            expect('(');
+            const args = [parseExpr()];
+            while (peek() === ',') {
+                next();
+                args.push(parseExpr());
+            }
+            expect(')');
+            return FUNCTIONS[name](...args);
+        }
+        throw new ToolInputError(`Unknown token "${token}"`);
+    };
+
+    const result = parseExpr();
+    if (position < tokens.length) throw new ToolInputError(`Unexpected "${tokens[position]}" in expression`);
+    return result;
+};
+
+export const calculatorTool: Tool = {
+    label: 'Calculator',
+    declaration: {
+        name: 'calculator',
+        description: 'Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e and sqrt, cbrt, abs, round, floor, ceil, sin, cos, tan, asin, acos, atan, ln, log (base 10), log2, exp, min, max, pow. Trig functions use radians. Use this instead of doing math in your head.',
+        parameters: {
+            type: 'object',
+            properties: {
+                expression: { type: 'string', description: 'The expression, e.g. "(12.5 * 4) / sqrt(16)"' }
+            },
+            required: ['expression']
+        }
+    },
+    run: ({ expression }) => {
+        if (typeof expression !== 'string' || !expression.trim()) throw new ToolInputError('expression is required');
+        const result = evaluateExpression(expression);
+        if (!Number.isFinite(result)) throw new ToolInputError('The result is not a finite number');
+        return { expression, result: Number(result.toPrecision(15)) };
+    }
+};
@@ -0,0 +1,27 @@
+import { runCode, SandboxLanguage } from '../codeSandbox';
+import { Tool, ToolInputError } from './types';
+
+const LANGUAGES: SandboxLanguage[] = ['javascript', 'python'];
+
+// Same sandbox as the Run button on code blocks
+export const codeRunnerTool: Tool = {
+    label: 'Run Code',
+    declaration: {
+        name: 'run_code',
+        description: 'Runs a JavaScript or Python snippet in a throwaway Web Worker and returns stdout, stderr and the value of the last expression. Use it to check calculations, data transformations or algorithms before answering. Network and storage APIs are disabled; 10 second time limit. Python has the standard library only, no third-party packages.',
+        parameters: {
+            type: 'object',
+            properties: {
+                language: { type: 'string', enum: LANGUAGES },
+                code: { type: 'string', description: 'Source to run. Use print / console.log for output.' }
+            },
+            required: ['language', 'code']
+        }
+    },
+    run: async ({ language, code }, { signal }) => {
+        if (!LANGUAGES.includes(language)) throw new ToolInputError('language must be "javascript" or "python"');
+        if (typeof code !== 'string' || !code.trim()) throw new ToolInputError('code is required');
+        const { stdout, stderr, result, error, timedOut } = await runCode(language, code, { signal });
+        return { stdout, stderr, result, error, timedOut };
+    }
+};
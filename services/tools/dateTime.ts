@@ -0,0 +1,130 @@
+import { Tool, ToolInputError } from './types';
+
+// Date arithmetic and timezone conversion on top of Intl, no date library needed.
+
+const UNIT_MS: Record<string, number> = {
+    minutes: 60000,
+    hours: 3600000,
+    days: 86400000,
+    weeks: 604800000
+};
+
+const assertTimeZone = (timeZone: string) => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+    } catch {
+        throw new ToolInputError(`Unknown timezone "${timeZone}". Use IANA names like "Asia/Kolkata" or "America/New_York".`);
+    }
+};
+
+// Offset of a timezone from UTC at a given instant, in ms
+const timeZoneOffset = (date: Date, timeZone: string): number => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric', month: '2-digit', day: '2-digit',
+        hour: '2-digit', minute: '2-digit', second: '2-digit'
+    }).formatToParts(date);
+    const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+    const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+    return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// Reads "2025-03-14 09:30" as wall-clock time in `timeZone`; strings with an offset or Z are absolute
+const parseDate = (input: string | undefined, timeZone: string): Date => {
+    if (!input || input === 'now') return new Date();
+    const hasOffset = /(?:Z|[+-]\d{2}:?\d{2})$/i.test(input.trim());
+    const normalized = input.trim().replace(' ', 'T');
+    const parsed = new Date(hasOffset ? normalized : `${normalized}${normalized.includes('T') ? '' : 'T00:00'}Z`);
+    if (isNaN(parsed.getTime())) throw new ToolInputError(`Can't read the date "${input}". Use ISO format like 2025-03-14 or 2025-03-14T09:30.`);
+    if (hasOffset) return parsed;
+    // Two passes settle the offset around DST changes
+    let utc = parsed.getTime() - timeZoneOffset(parsed, timeZone);
+    utc = parsed.getTime() - timeZoneOffset(new Date(utc), timeZone);
+    return new Date(utc);
+};
+
+const describe = (date: Date, timeZone: string) => ({
+    timeZone,
+    local: date.toLocaleString('en-US', {
+        timeZone, weekday: 'long', year: 'numeric', month: 'long', day: 'numeric',
+        hour: '2-digit', minute: '2-digit', timeZoneName: 'short'
+    }),
+    iso: date.toISOString()
+});
+
+const localTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const dateTimeTool: Tool = {
+    label: 'Date & Time',
+    declaration: {
+        name: 'date_time',
+        description: 'Date and time math. Operations: "now" (current time in a timezone), "convert" (a date/time from one timezone to another), "add" (add or subtract an amount of minutes/hours/days/weeks/months/years), "diff" (time between two dates). Timezones are IANA names; the user\'s own timezone is used when omitted.',
+        parameters: {
+            type: 'object',
+            properties: {
+                operation: { type: 'string', enum: ['now', 'convert', 'add', 'diff'] },
+                date: { type: 'string', description: 'ISO date or date-time, or "now". Read as local time in `timezone` unless it has an offset.' },
+                endDate: { type: 'string', description: 'Second date for "diff"' },
+                timezone: { type: 'string', description: 'IANA timezone of `date`, e.g. "Asia/Kolkata"' },
+                toTimezone: { type: 'string', description: 'Target timezone for "convert"' },
+                amount: { type: 'number', description: 'Amount for "add", negative to subtract' },
+                unit: { type: 'string', enum: ['minutes', 'hours', 'days', 'weeks', 'months', 'years'] }
+            },
+            required: ['operation']
+        }
+    },
+    run: ({ operation, date, endDate, timezone, toTimezone, amount, unit }) => {
+        const timeZone = timezone || localTimeZone();
+        assertTimeZone(timeZone);
+
+        switch (operation) {
+            case 'now':
+                return describe(new Date(), timeZone);
+
+            case 'convert': {
+                if (!toTimezone) throw new ToolInputError('toTimezone is required for convert');
+                assertTimeZone(toTimezone);
+                const instant = parseDate(date, timeZone);
+                return { from: describe(instant, timeZone), to: describe(instant, toTimezone) };
+            }
+
+            case 'add': {
+                const delta = Number(amount);
+                if (!Number.isFinite(delta)) throw new ToolInputError('amount must be a number');
+                const start = parseDate(date, timeZone);
+                let result: Date;
+                if (unit === 'months' || unit === 'years') {
+                    // Calendar math in UTC fields; Jan 31 + 1 month clamps to the end of February
+                    result = new Date(start);
+                    const day = result.getUTCDate();
+                    result.setUTCDate(1);
+                    result.setUTCMonth(result.getUTCMonth() + delta * (unit === 'years' ? 12 : 1));
+                    const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+                    result.setUTCDate(Math.min(day, lastDay));
+                } else if (UNIT_MS[unit]) {
+                    result = new Date(start.getTime() + delta * UNIT_MS[unit]);
+                } else {
+                    throw new ToolInputError('unit must be one of minutes, hours, days, weeks, months, years');
+                }
+                return { start: describe(start, timeZone), result: describe(result, timeZone) };
+            }
+
+            case 'diff': {
+                const start = parseDate(date, timeZone);
+                const end = parseDate(endDate, timeZone);
+                const ms = end.getTime() - start.getTime();
+                return {
+                    start: start.toISOString(),
+                    end: end.toISOString(),
+                    totalDays: Number((ms / 86400000).toFixed(4)),
+                    totalHours: Number((ms / 3600000).toFixed(2)),
+                    weeksAndDays: `${Math.trunc(ms / 604800000)} weeks, ${Math.trunc(ms % 604800000 / 86400000)} days`
+                };
+            }
+
+            default:
+                throw new ToolInputError('operation must be one of now, convert, add, diff');
+        }
+    }
+};
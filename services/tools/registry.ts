@@ -0,0 +1,47 @@
+import { ToolStep } from '../../types';
+import { ToolCall, ToolDeclaration } from '../providers/types';
+import { calculatorTool } from './calculator';
+import { codeRunnerTool } from './codeRunner';
+import { dateTimeTool } from './dateTime';
+import { sessionSearchTool } from './sessionSearch';
+import { Tool, ToolContext } from './types';
+import { unitConverterTool } from './unitConverter';
+
+// Local tools the model can call. Add new ones here; declarations are sent with
+// every tool-enabled chat request.
+
+const tools = new Map<string, Tool>();
+
+export const registerTool = (tool: Tool) => {
+    tools.set(tool.declaration.name, tool);
+};
+
+export const getTool = (name: string): Tool | undefined => tools.get(name);
+
+export const listTools = (): Tool[] => Array.from(tools.values());
+
+export const toolDeclarations = (): ToolDeclaration[] => listTools().map(t => t.declaration);
+
+// Never throws: failures become the step's error and are reported back to the model
+export const runToolCall = async (call: ToolCall, context: ToolContext): Promise<ToolStep> => {
+    // The fallback id only tells steps apart in the UI; it is never sent back to the provider
+    const step: ToolStep = { id: call.id || `${call.name}-${Date.now()}`, name: call.name, args: call.args };
+    const tool = getTool(call.name);
+    const started = Date.now();
+
+    try {
+        if (call.argsError) throw new Error(call.argsError);
+        if (!tool) throw new Error(`Unknown tool "${call.name}"`);
+        step.result = await tool.run(call.args || {}, context);
+    } catch (error: any) {
+        step.error = error instanceof Error ? error.message : String(error);
+    }
+    step.durationMs = Date.now() - started;
+    return step;
+};
+
+registerTool(calculatorTool);
+registerTool(unitConverterTool);
+registerTool(dateTimeTool);
+registerTool(sessionSearchTool);
+registerTool(codeRunnerTool);
@@ -0,0 +1,52 @@
+import { MessageRole } from '../../types';
+import { Tool, ToolInputError } from './types';
+
+const MAX_RESULTS = 5;
+const SNIPPET_RADIUS = 120;
+
+const snippetAround = (text: string, index: number): string => {
+    const start = Math.max(0, index - SNIPPET_RADIUS);
+    const end = Math.min(text.length, index + SNIPPET_RADIUS);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
+};
+
+// Scores messages by how many query words they contain; the current chat is already in context
+export const sessionSearchTool: Tool = {
+    label: 'Search Past Chats',
+    declaration: {
+        name: 'search_past_sessions',
+        description: "Searches the user's earlier conversations with you (stored locally) for messages containing the query words. Use it when the user refers to something discussed before.",
+        parameters: {
+            type: 'object',
+            properties: {
+                query: { type: 'string', description: 'Words to look for' }
+            },
+            required: ['query']
+        }
+    },
+    run: ({ query }, { sessions, currentSessionId }) => {
+        if (typeof query !== 'string' || !query.trim()) throw new ToolInputError('query is required');
+        const words = query.toLowerCase().split(/\s+/).filter(w => w.length > 1);
+
+        const matches = sessions
+            .filter(session => session.id !== currentSessionId)
+            .flatMap(session => session.messages.map(message => {
+                const text = message.content.toLowerCase();
+                const hits = words.filter(w => text.includes(w));
+                return { session, message, text, hits };
+            }))
+            .filter(m => m.hits.length > 0)
+            .sort((a, b) => b.hits.length - a.hits.length || b.message.timestamp - a.message.timestamp)
+            .slice(0, MAX_RESULTS);
+
+        return {
+            query,
+            results: matches.map(({ session, message, text, hits }) => ({
+                sessionTitle: session.title,
+                date: new Date(message.timestamp).toISOString().slice(0, 10),
+                from: message.role === MessageRole.USER ? 'user' : 'assistant',
+                snippet: snippetAround(message.content, text.indexOf(hits[0]))
+            }))
+        };
+    }
+};
@@ -0,0 +1,24 @@
+import { ChatSession } from '../../types';
+import { ToolDeclaration } from '../providers/types';
+
+// What a tool may look at while it runs
+export interface ToolContext {
+    sessions: ChatSession[];
+    currentSessionId?: string;
+    signal?: AbortSignal;
+}
+
+export interface Tool {
+    declaration: ToolDeclaration;
+    label: string; // Shown in the tool step header
+    // Return any JSON-serializable value; throw to report a failure back to the model
+    run: (args: Record<string, any>, context: ToolContext) => unknown | Promise<unknown>;
+}
+
+// Thrown for bad arguments; the message is sent to the model so it can correct itself
+export class ToolInputError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ToolInputError';
+    }
+}
@@ -0,0 +1,138 @@
+import { Tool, ToolInputError } from './types';
+
+// Conversion factors to one base unit per dimension. Currency rates are a fixed
+// local snapshot, so answers say which date they are from.
+
+interface UnitTable {
+    dimension: string;
+    units: Record<string, number>; // Multiply by this to get the base unit
+}
+
+const LINEAR_TABLES: UnitTable[] = [
+    {
+        dimension: 'length',
+        units: { mm: 0.001, cm: 0.01, m: 1, km: 1000, in: 0.0254, ft: 0.3048, yd: 0.9144, mi: 1609.344, nmi: 1852 }
+    },
+    {
+        dimension: 'mass',
+        units: { mg: 0.000001, g: 0.001, kg: 1, t: 1000, oz: 0.028349523125, lb: 0.45359237, st: 6.35029318 }
+    },
+    {
+        dimension: 'volume',
+        units: { ml: 0.001, l: 1, m3: 1000, tsp: 0.00492892159375, tbsp: 0.01478676478125, cup: 0.2365882365, pt: 0.473176473, qt: 0.946352946, gal: 3.785411784 }
+    },
+    {
+        dimension: 'area',
+        units: { m2: 1, km2: 1e6, cm2: 0.0001, ft2: 0.09290304, acre: 4046.8564224, ha: 10000, sqmi: 2589988.110336 }
+    },
+    {
+        dimension: 'speed',
+        units: { 'm/s': 1, 'km/h': 1 / 3.6, mph: 0.44704, knot: 0.514444 }
+    },
+    {
+        dimension: 'time',
+        units: { ms: 0.001, s: 1, min: 60, h: 3600, day: 86400, week: 604800, year: 31557600 }
+    },
+    {
+        dimension: 'data',
+        units: { b: 1, kb: 1e3, mb: 1e6, gb: 1e9, tb: 1e12, kib: 1024, mib: 1024 ** 2, gib: 1024 ** 3, tib: 1024 ** 4 }
+    }
+];
+
+export const CURRENCY_RATES_DATE = '2025-10-01';
+
+// Units of currency per 1 USD
+const CURRENCY_PER_USD: Record<string, number> = {
+    usd: 1,
+    eur: 0.852,
+    gbp: 0.744,
+    inr: 88.7,
+    jpy: 147.9,
+    cny: 7.12,
+    aud: 1.52,
+    cad: 1.39,
+    chf: 0.796,
+    sgd: 1.29,
+    aed: 3.6725,
+    brl: 5.33,
+    krw: 1405
+};
+
+const ALIASES: Record<string, string> = {
+    meter: 'm', meters: 'm', metre: 'm', metres: 'm', kilometer: 'km', kilometers: 'km', centimeter: 'cm', centimeters: 'cm',
+    millimeter: 'mm', millimeters: 'mm', inch: 'in', inches: 'in', foot: 'ft', feet: 'ft', yard: 'yd', yards: 'yd', mile: 'mi', miles: 'mi',
+    gram: 'g', grams: 'g', kilogram: 'kg', kilograms: 'kg', kgs: 'kg', tonne: 't', tonnes: 't', ounce: 'oz', ounces: 'oz',
+    pound: 'lb', pounds: 'lb', lbs: 'lb', stone: 'st',
+    liter: 'l', liters: 'l', litre: 'l', litres: 'l', milliliter: 'ml', milliliters: 'ml', gallon: 'gal', gallons: 'gal', cups: 'cup',
+    kmh: 'km/h', kph: 'km/h', knots: 'knot',
+    second: 's', seconds: 's', sec: 's', minute: 'min', minutes: 'min', hour: 'h', hours: 'h', hr: 'h', days: 'day', weeks: 'week', years: 'year',
+    celsius: 'c', '°c': 'c', fahrenheit: 'f', '°f': 'f', kelvin: 'k',
+    dollar: 'usd', dollars: 'usd', '$': 'usd', euro: 'eur', euros: 'eur', '€': 'eur', rupee: 'inr', rupees: 'inr', '₹': 'inr',
+    yen: 'jpy', '¥': 'jpy', pound_sterling: 'gbp', '£': 'gbp', yuan: 'cny'
+};
+
+const normalizeUnit = (unit: string): string => {
+    const key = unit.trim().toLowerCase();
+    return ALIASES[key] || key;
+};
+
+const TEMPERATURE_UNITS = ['c', 'f', 'k'];
+
+const toCelsius = (value: number, unit: string): number => {
+    if (unit === 'f') return (value - 32) * 5 / 9;
+    if (unit === 'k') return value - 273.15;
+    return value;
+};
+
+const fromCelsius = (value: number, unit: string): number => {
+    if (unit === 'f') return value * 9 / 5 + 32;
+    if (unit === 'k') return value + 273.15;
+    return value;
+};
+
+export const convert = (value: number, fromUnit: string, toUnit: string) => {
+    const from = normalizeUnit(fromUnit);
+    const to = normalizeUnit(toUnit);
+
+    if (TEMPERATURE_UNITS.includes(from) && TEMPERATURE_UNITS.includes(to)) {
+        return { value: fromCelsius(toCelsius(value, from), to), dimension: 'temperature' };
+    }
+
+    if (from in CURRENCY_PER_USD && to in CURRENCY_PER_USD) {
+        return {
+            value: value / CURRENCY_PER_USD[from] * CURRENCY_PER_USD[to],
+            dimension: 'currency',
+            ratesAsOf: CURRENCY_RATES_DATE
+        };
+    }
+
+    const table = LINEAR_TABLES.find(t => from in t.units && to in t.units);
+    if (!table) {
+        throw new ToolInputError(`Can't convert "${fromUnit}" to "${toUnit}". Supported: ${LINEAR_TABLES.map(t => `${t.dimension} (${Object.keys(t.units).join(', ')})`).join('; ')}; temperature (c, f, k); currency (${Object.keys(CURRENCY_PER_USD).join(', ')}).`);
+    }
+    return { value: value * table.units[from] / table.units[to], dimension: table.dimension };
+};
+
+export const unitConverterTool: Tool = {
+    label: 'Unit Converter',
+    declaration: {
+        name: 'convert_units',
+        description: `Converts a value between units of length, mass, volume, area, speed, time, data size, temperature, or between currencies (offline rates from ${CURRENCY_RATES_DATE}, mention that date when converting money).`,
+        parameters: {
+            type: 'object',
+            properties: {
+                value: { type: 'number', description: 'Amount to convert' },
+                from: { type: 'string', description: 'Source unit, e.g. "km", "lb", "f", "usd"' },
+                to: { type: 'string', description: 'Target unit, e.g. "mi", "kg", "c", "inr"' }
+            },
+            required: ['value', 'from', 'to']
+        }
+    },
+    run: ({ value, from, to }) => {
+        const amount = Number(value);
+        if (!Number.isFinite(amount)) throw new ToolInputError('value must be a number');
+        if (typeof from !== 'string' || typeof to !== 'string') throw new ToolInputError('from and to are required');
+        const converted = convert(amount, from, to);
+        return { ...converted, value: Number(converted.value.toPrecision(10)), from, to };
+    }
+};
@@ -0,0 +1,121 @@
+import { ChatSession, TokenUsage } from '../types';
+
+// Turns recorded token counts into costs and rolls them up for the usage view.
+// Prices are USD and editable in the app; these defaults follow the public list prices.
+
+export interface ModelPrice {
+    inputPerMillion: number;
+    outputPerMillion: number; // Thinking tokens bill at the output rate
+    perVideoSecond?: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_PRICES: PriceTable = {
+    'gemini-flash-lite-latest': { inputPerMillion: 0.10, outputPerMillion: 0.40 },
+    'gemini-2.5-flash': { inputPerMillion: 0.30, outputPerMillion: 2.50 },
+    'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10.00 },
+    'gemini-3-pro-preview': { inputPerMillion: 2.00, outputPerMillion: 12.00 },
+    'gemini-2.5-flash-image': { inputPerMillion: 0.30, outputPerMillion: 30.00 },
+    'gemini-2.5-flash-preview-tts': { inputPerMillion: 0.50, outputPerMillion: 10.00 },
+    'veo-3.1-fast-generate-preview': { inputPerMillion: 0, outputPerMillion: 0, perVideoSecond: 0.15 },
+    'veo-3.1-generate-preview': { inputPerMillion: 0, outputPerMillion: 0, perVideoSecond: 0.40 }
+};
+
+export interface UsageTotals {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    thinkingTokens: number;
+    videoSeconds: number;
+    cost: number;
+}
+
+export interface UsageReport {
+    total: UsageTotals;
+    bySession: { id: string; title: string; totals: UsageTotals }[];
+    byMode: { mode: string; totals: UsageTotals }[];
+    byDay: { day: string; totals: UsageTotals }[]; // Newest first, local YYYY-MM-DD
+}
+
+// Calls with no price entry count as free, the view lists them so they can be priced
+export const costOf = (usage: TokenUsage, prices: PriceTable): number => {
+    const price = prices[usage.model];
+    if (!price) return 0;
+    return usage.inputTokens / 1e6 * price.inputPerMillion
+        + (usage.outputTokens + usage.thinkingTokens) / 1e6 * price.outputPerMillion
+        + (usage.videoSeconds || 0) * (price.perVideoSecond || 0);
+};
+
+export const emptyTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, thinkingTokens: 0, videoSeconds: 0, cost: 0 });
+
+export const addUsage = (totals: UsageTotals, usage: TokenUsage, prices: PriceTable) => {
+    totals.calls++;
+    totals.inputTokens += usage.inputTokens;
+    totals.outputTokens += usage.outputTokens;
+    totals.thinkingTokens += usage.thinkingTokens;
+    totals.videoSeconds += usage.videoSeconds || 0;
+    totals.cost += costOf(usage, prices);
+};
+
+export const sumUsage = (usage: TokenUsage[] = [], prices: PriceTable): UsageTotals => {
+    const totals = emptyTotals();
+    usage.forEach(u => addUsage(totals, u, prices));
+    return totals;
+};
+
+const dayKey = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Every branch counts: abandoned edits and regenerations were still paid for
+export const buildUsageReport = (sessions: ChatSession[], prices: PriceTable): UsageReport => {
+    const total = emptyTotals();
+    const modes = new Map<string, UsageTotals>();
+    const days = new Map<string, UsageTotals>();
+
+    const record = (usage: TokenUsage, mode: string, timestamp: number, sessionTotals: UsageTotals) => {
+        if (!modes.has(mode)) modes.set(mode, emptyTotals());
+        const day = dayKey(timestamp);
+        if (!days.has(day)) days.set(day, emptyTotals());
+        [total, sessionTotals, modes.get(mode)!, days.get(day)!].forEach(t => addUsage(t, usage, prices));
+    };
+
+    const bySession = sessions.map(session => {
+        const totals = emptyTotals();
+        session.messages.forEach(message => {
+            message.usage?.forEach(usage => record(usage, message.modeUsed || 'unknown', message.timestamp, totals));
+        });
+        session.backgroundUsage?.forEach(usage => record(usage, 'background', usage.timestamp, totals));
+        return { id: session.id, title: session.title, totals };
+    }).filter(entry => entry.totals.calls > 0);
+
+    return {
+        total,
+        bySession: bySession.sort((a, b) => b.totals.cost - a.totals.cost),
+        byMode: Array.from(modes.entries()).map(([mode, totals]) => ({ mode, totals })).sort((a, b) => b.totals.cost - a.totals.cost),
+        byDay: Array.from(days.entries()).map(([day, totals]) => ({ day, totals })).sort((a, b) => b.day.localeCompare(a.day))
+    };
+};
+
+// Models that appear in the usage but have no price yet
+export const unpricedModels = (sessions: ChatSession[], prices: PriceTable): string[] => {
+    const seen = new Set<string>();
+    sessions.forEach(session => {
+        session.messages.forEach(m => m.usage?.forEach(u => seen.add(u.model)));
+        session.backgroundUsage?.forEach(u => seen.add(u.model));
+    });
+    return Array.from(seen).filter(model => !prices[model]);
+};
+
+export const formatCost = (cost: number): string => {
+    if (cost === 0) return '$0.00';
+    return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+};
+
+export const formatTokens = (tokens: number): string => {
+    if (tokens >= 1e6) return `${(tokens / 1e6).toFixed(1)}M`;
+    if (tokens >= 1e3) return `${(tokens / 1e3).toFixed(1)}k`;
+    return String(tokens);
+};
@@ -4,7 +4,8 @@ export enum AppMode {
   SMART = 'SMART',
   VOICE = 'VOICE',
   CREATIVE = 'CREATIVE',
-  VIDEO = 'VIDEO'
+  VIDEO = 'VIDEO',
+  RESEARCH = 'RESEARCH'
 }
 
 export enum MessageRole {
@@ -34,6 +35,15 @@ export enum FastModeStyle {
   MINIMAL = 'Minimal'
 }
 
+// How long SMART and CREATIVE may reason before answering
+export enum ThinkingBudget {
+  AUTO = 'Auto',
+  OFF = 'Off',
+  LIGHT = 'Light',
+  BALANCED = 'Balanced',
+  DEEP = 'Deep'
+}
+
 export enum ImageStyle {
   DEFAULT = 'Default',
   CINEMATIC = 'Cinematic',
@@ -53,6 +63,23 @@ export enum ImageStyle {
   ABSTRACT = 'Abstract'
 }
 
+export enum ServiceErrorKind {
+  QUOTA = 'quota',
+  AUTH = 'auth',
+  SAFETY = 'safety',
+  NETWORK = 'network',
+  INVALID_INPUT = 'invalid_input',
+  CANCELLED = 'cancelled',
+  UNKNOWN = 'unknown'
+}
+
+export interface ServiceError {
+  kind: ServiceErrorKind;
+  message: string; // User-facing explanation
+  detail?: string; // Raw provider message, for debugging
+  retryable: boolean;
+}
+
 export interface Attachment {
   type: AttachmentType;
   url: string;
@@ -63,22 +90,123 @@ export interface Attachment {
 
 export interface Message {
   id: string;
+  parentId?: string | null; // Previous turn in the conversation tree, null for the first message
   role: MessageRole;
   content: string;
   timestamp: number;
   attachments?: Attachment[];
-  isThinking?: boolean;
+  isThinking?: boolean; // Still reasoning, no answer text yet
+  thoughts?: string; // Reasoning summary, kept apart from the answer
   modeUsed?: AppMode;
-  groundingUrls?: { title: string; uri: string }[];
+  groundingUrls?: { title: string; uri: string; domain?: string }[];
+  citations?: Citation[]; // Footnotes tying parts of the content to groundingUrls
   executionTime?: number; // Time taken to generate response in ms
   audioData?: string; // Base64 audio data
+  isCancelled?: boolean; // Stopped by the user, content may be partial
+  error?: ServiceError; // Set when generation failed; content holds any partial text
+  usage?: TokenUsage[]; // One entry per model call behind this message
+  toolSteps?: ToolStep[]; // Tool calls made while producing this reply, in order
+  researchSteps?: ResearchStep[]; // Plan, searches and write-up behind a research report
+  request?: ReplyRequest; // On failed replies: what Retry sends again
+}
+
+// Whether a message is a chat turn or an image / image edit / video job
+export type Intent = 'chat' | 'image' | 'image_edit' | 'video';
+
+// Settings and routing a reply was generated with, so a retry doesn't pick up later changes
+export interface ReplyRequest {
+  settings: SessionSettings;
+  intent?: Intent; // Unset when the reply failed before routing, the retry routes again
+  imageStyle: ImageStyle;
+}
+
+// Footnote in a grounded answer
+export interface Citation {
+  end: number; // Character offset in the content right after the supported text
+  sources: number[]; // Indexes into the message's groundingUrls
+}
+
+// One function call the model made and what the tool returned
+export interface ToolStep {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  result?: unknown; // JSON-serializable
+  error?: string;
+  durationMs?: number;
+}
+
+// One stage of a research run: planning, a search per sub-question, then writing
+export interface ResearchStep {
+  id: string;
+  label: string;
+  status: 'pending' | 'running' | 'done' | 'failed';
+  detail?: string; // Sources found, or why the step failed
+}
+
+// What a single model call consumed, as reported by the provider
+export interface TokenUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  videoSeconds?: number; // Video models bill per generated second
+}
+
+// Rolling summary of turns that no longer fit into the context window
+export interface ContextDigest {
+  summary: string;
+  coveredUntilId: string; // Last message folded into the summary
+  updatedAt: number;
 }
 
 export interface ChatSession {
   id: string;
   title: string;
-  messages: Message[];
+  titleLocked?: boolean; // Renamed by the user, automatic titles leave it alone
+  titledAt?: number; // Active branch length when the title was last generated or confirmed
+  messages: Message[]; // Every node of the conversation tree, in creation order
+  activeLeafId?: string; // Tip of the branch currently shown
   lastUpdated: number;
+  contextDigest?: ContextDigest;
+  settings: SessionSettings;
+  backgroundUsage?: (TokenUsage & { timestamp: number })[]; // Calls not tied to a message, e.g. summaries
+  pinned?: boolean; // Listed above the folders
+  folder?: string;
+  tags?: string[];
+  archived?: boolean; // Out of the sidebar list, still searchable
+  deletedAt?: number; // In the trash since then; purged after the retention period
+}
+
+// How a chat is being used; restored whenever the chat is opened
+export interface SessionSettings {
+  mode: AppMode;
+  fastModeStyle: FastModeStyle;
+  thinkingBudget: ThinkingBudget;
+  imageStyle: ImageStyle;
+  personaId?: string; // Overrides the default persona for this chat
+  modelOverrides?: Partial<Record<AppMode, string>>; // Model id per mode, instead of the routed default
+  voice: LiveVoice; // Live calls and read-aloud replies
+}
+
+// Named assistant profile that shapes every system instruction
+export interface Persona {
+  id: string;
+  name: string;
+  identity: string; // Who the assistant is, one rule per line
+  tone: string;
+  language: string; // Default reply language
+  modeInstructions?: Partial<Record<AppMode, string>>; // Replace the built-in text per mode
+  liveInstruction?: string; // Rules for real-time voice calls
+  builtIn?: boolean; // Shipped profiles can be copied but not edited
+}
+
+// Saved prompt offered in the slash menu; `{{name}}` marks a part to fill in each time
+export interface PromptTemplate {
+  id: string;
+  name: string; // Typed as /name, lowercase letters, digits and dashes
+  description?: string;
+  body: string;
 }
 
 export interface UserSettings {
@@ -0,0 +1,112 @@
+import { Citation } from '../types';
+import { GroundingSource, GroundingSupport } from '../services/providers/types';
+
+// Gemini search results link through a redirect host; the title then holds the publisher's domain
+const REDIRECT_HOSTS = ['vertexaisearch.cloud.google.com'];
+
+export const sourceDomain = (source: GroundingSource): string => {
+    if (source.domain) return source.domain;
+    try {
+        const host = new URL(source.uri).hostname.replace(/^www\./, '');
+        return REDIRECT_HOSTS.some(h => host.endsWith(h)) ? source.title : host;
+    } catch {
+        return source.title;
+    }
+};
+
+// Same page reached through two redirect links counts once
+export const isSameSource = (a: GroundingSource, b: GroundingSource): boolean => {
+    return a.uri === b.uri || (a.title === b.title && sourceDomain(a) === sourceDomain(b));
+};
+
+// UTF-8 byte offset to a string index
+const charIndexAtByte = (text: string, byteOffset: number): number => {
+    const encoder = new TextEncoder();
+    let bytes = 0;
+    for (let i = 0; i < text.length; i++) {
+        if (bytes >= byteOffset) return i;
+        const code = text.codePointAt(i)!;
+        bytes += encoder.encode(String.fromCodePoint(code)).length;
+        if (code > 0xffff) i++;
+    }
+    return text.length;
+};
+
+// Places a footnote after each supported segment. Segments are found by their text, in order,
+// falling back to the reported byte offset. Footnotes at the same spot are merged.
+export const mapCitations = (
+    text: string,
+    supports: GroundingSupport[],
+    sourceIndexOf: (uri: string) => number | undefined
+): Citation[] => {
+    const byEnd = new Map<number, Set<number>>();
+    let cursor = 0;
+
+    for (const support of supports) {
+        const sources = support.sourceUris.map(sourceIndexOf).filter((i): i is number => i !== undefined);
+        if (sources.length === 0) continue;
+
+        let found = text.indexOf(support.text, cursor);
+        if (found === -1) found = text.indexOf(support.text);
+        let end: number;
+        if (found !== -1) {
+            end = found + support.text.length;
+            cursor = end;
+        } else if (support.endByte !== undefined) {
+            end = charIndexAtByte(text, support.endByte);
+        } else {
+            continue;
+        }
+
+        const set = byEnd.get(end) || new Set<number>();
+        sources.forEach(s => set.add(s));
+        byEnd.set(end, set);
+    }
+
+    return Array.from(byEnd.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([end, sources]) => ({ end, sources: Array.from(sources).sort((a, b) => a - b) }));
+};
+
+// Footnotes become `[n](#cite-n)` links for the markdown renderer; none are placed inside code fences
+export const insertCitationMarkers = (content: string, citations?: Citation[]): string => {
+    if (!citations?.length) return content;
+    let result = content;
+    for (const citation of [...citations].sort((a, b) => b.end - a.end)) {
+        if (citation.end > result.length) continue;
+        const before = result.slice(0, citation.end);
+        if ((before.match(/```/g) || []).length % 2 === 1) continue;
+        const markers = citation.sources.map(i => `[${i + 1}](#cite-${i + 1})`).join('');
+        result = `${before}${markers}${result.slice(citation.end)}`;
+    }
+    return result;
+};
+
+// Sources no footnote points at; empty when the backend reported no supports at all
+export const uncitedSources = (sourceCount: number, citations?: Citation[]): Set<number> => {
+    if (!citations?.length) return new Set();
+    const cited = new Set(citations.flatMap(c => c.sources));
+    return new Set(Array.from({ length: sourceCount }, (_, i) => i).filter(i => !cited.has(i)));
+};
+
+// Code fences and inline code spans come first in the alternation, so markers inside them are never matched
+const CODE_OR_MARKER = /(```[\s\S]*?(?:```|$)|`[^`\n]*`)|[ \t]*((?:\[\d+(?:\s*,\s*\d+)*\])+)(?![(\[])/g;
+
+// Turns `[n]` / `[n, m]` footnotes a model wrote inline into citations on the stripped text.
+// Only markers whose numbers all name a source count, so `[2024]`, `arr[0]` and anything
+// in code stay as written; links like `[2024](url)` are left alone too.
+export const extractCitationMarkers = (text: string, sourceCount: number): { text: string; citations: Citation[] } => {
+    const citations: Citation[] = [];
+    let result = '';
+    let last = 0;
+    for (const match of text.matchAll(CODE_OR_MARKER)) {
+        if (match[1]) continue;
+        const numbers = match[2].match(/\d+/g)!.map(Number);
+        if (numbers.some(n => n < 1 || n > sourceCount)) continue;
+        result += text.slice(last, match.index);
+        last = match.index! + match[0].length;
+        const sources = Array.from(new Set(numbers.map(n => n - 1))).sort((a, b) => a - b);
+        citations.push({ end: result.length, sources });
+    }
+    return { text: result + text.slice(last), citations };
+};
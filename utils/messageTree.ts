@@ -0,0 +1,71 @@
+import { ChatSession, Message } from '../types';
+
+// Helpers for the branching conversation model. Messages are stored flat on the
+// session, each pointing at its parent; siblings are alternative edits/regenerations.
+
+// Sessions saved before branching existed are plain lists: chain them in order
+export const normalizeSessionTree = (session: ChatSession): ChatSession => {
+    if (session.messages.every(m => m.parentId !== undefined)) {
+        return session.activeLeafId || session.messages.length === 0
+            ? session
+            : { ...session, activeLeafId: session.messages[session.messages.length - 1].id };
+    }
+
+    const messages = session.messages.map((m, i) => ({
+        ...m,
+        parentId: m.parentId !== undefined ? m.parentId : (i === 0 ? null : session.messages[i - 1].id)
+    }));
+    return {
+        ...session,
+        messages,
+        activeLeafId: session.activeLeafId || messages[messages.length - 1]?.id
+    };
+};
+
+export const getChildren = (messages: Message[], parentId: string | null): Message[] => {
+    return messages.filter(m => (m.parentId ?? null) === parentId);
+};
+
+// Root-to-leaf list of messages that make up the visible conversation
+export const getActivePath = (session: ChatSession): Message[] => {
+    const byId = new Map(session.messages.map(m => [m.id, m]));
+    const path: Message[] = [];
+    let node = session.activeLeafId ? byId.get(session.activeLeafId) : undefined;
+    while (node) {
+        path.unshift(node);
+        node = node.parentId ? byId.get(node.parentId) : undefined;
+    }
+    return path;
+};
+
+// Follows the newest child at every level, used when jumping onto another branch
+export const getLatestLeaf = (messages: Message[], fromId: string): string => {
+    let leafId = fromId;
+    let children = getChildren(messages, leafId);
+    while (children.length > 0) {
+        leafId = children[children.length - 1].id;
+        children = getChildren(messages, leafId);
+    }
+    return leafId;
+};
+
+export interface BranchPosition {
+    index: number; // Zero-based position among siblings
+    count: number;
+    siblingIds: string[];
+}
+
+export const getBranchPositions = (messages: Message[], path: Message[]): Record<string, BranchPosition> => {
+    const positions: Record<string, BranchPosition> = {};
+    path.forEach(m => {
+        const siblingIds = getChildren(messages, m.parentId ?? null).map(s => s.id);
+        positions[m.id] = { index: siblingIds.indexOf(m.id), count: siblingIds.length, siblingIds };
+    });
+    return positions;
+};
+
+// Path up to (but not including) the given message
+export const getPathBefore = (path: Message[], messageId: string): Message[] => {
+    const index = path.findIndex(m => m.id === messageId);
+    return index === -1 ? path : path.slice(0, index);
+};
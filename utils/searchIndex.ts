@@ -0,0 +1,238 @@
+import { AppMode, AttachmentType, ChatSession, Message } from '../types';
+
+// Local full-text index over every chat. Messages are indexed by object identity, so
+// `update` after a change only re-tokenizes the messages that were replaced.
+
+export type SearchField = 'content' | 'attachment' | 'source';
+
+export interface SearchFilters {
+    mode?: AppMode; // Matches the message's `modeUsed`
+    from?: number; // Inclusive timestamps
+    to?: number;
+    media?: AttachmentType.IMAGE | AttachmentType.VIDEO;
+}
+
+export interface SearchSnippet {
+    text: string;
+    highlights: [number, number][]; // Start and end offsets into `text`
+}
+
+export interface SearchResult {
+    sessionId: string;
+    sessionTitle: string;
+    message: Message;
+    field: SearchField;
+    snippet: SearchSnippet;
+    score: number;
+}
+
+interface IndexedField {
+    field: SearchField;
+    text: string;
+}
+
+interface IndexedMessage {
+    message: Message;
+    sessionId: string;
+    fields: IndexedField[];
+    terms: Map<string, number>; // Field-weighted term frequency
+    length: number;
+}
+
+// A word in an attachment name or source title says more than one in a long reply
+const FIELD_WEIGHTS: Record<SearchField, number> = { content: 1, attachment: 2, source: 1.5 };
+const PREFIX_WEIGHT = 0.6;
+const SNIPPET_LENGTH = 140;
+const MAX_RESULTS = 50;
+
+// BM25 tuning
+const K1 = 1.2;
+const B = 0.75;
+
+const fold = (text: string): string => text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const tokenize = (text: string): string[] => fold(text).split(/[^\p{L}\p{M}\p{N}]+/u).filter(Boolean);
+
+// Markdown markup would otherwise end up in snippets
+const plainText = (markdown: string): string => markdown
+    .replace(/```[^\n]*\n?/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`#>|~]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const fieldsOf = (message: Message): IndexedField[] => {
+    const fields: IndexedField[] = [];
+    const content = plainText(message.content || '');
+    if (content) fields.push({ field: 'content', text: content });
+    message.attachments?.forEach(att => {
+        if (att.name) fields.push({ field: 'attachment', text: att.name });
+    });
+    message.groundingUrls?.forEach(source => {
+        if (source.title) fields.push({ field: 'source', text: source.title });
+    });
+    return fields;
+};
+
+const matchesFilters = (message: Message, filters: SearchFilters): boolean => {
+    if (filters.mode && message.modeUsed !== filters.mode) return false;
+    if (filters.from !== undefined && message.timestamp < filters.from) return false;
+    if (filters.to !== undefined && message.timestamp > filters.to) return false;
+    if (filters.media && !message.attachments?.some(att => att.type === filters.media)) return false;
+    return true;
+};
+
+export const hasFilters = (filters: SearchFilters): boolean => {
+    return !!(filters.mode || filters.from !== undefined || filters.to !== undefined || filters.media);
+};
+
+// Window around the first hit, with every query term in it marked
+const buildSnippet = (text: string, queryTerms: string[]): SearchSnippet => {
+    const hits: [number, number][] = [];
+    const wordPattern = /[\p{L}\p{M}\p{N}]+/gu;
+    let match: RegExpExecArray | null;
+    while ((match = wordPattern.exec(text))) {
+        const word = fold(match[0]);
+        if (queryTerms.some(term => word.startsWith(term))) hits.push([match.index, match.index + match[0].length]);
+    }
+
+    const first = hits[0]?.[0] ?? 0;
+    let start = Math.max(0, first - Math.floor(SNIPPET_LENGTH / 3));
+    const end = Math.min(text.length, start + SNIPPET_LENGTH);
+    start = Math.max(0, end - SNIPPET_LENGTH);
+    // Don't cut words in half
+    const space = text.indexOf(' ', start);
+    if (start > 0 && space !== -1 && space < first) start = space + 1;
+
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < text.length ? '…' : '';
+    const offset = prefix.length - start;
+    return {
+        text: prefix + text.slice(start, end) + suffix,
+        highlights: hits.filter(([s, e]) => s >= start && e <= end).map(([s, e]) => [s + offset, e + offset])
+    };
+};
+
+export class SearchIndex {
+    private messages = new Map<string, IndexedMessage>();
+    private postings = new Map<string, Set<string>>();
+    private titles = new Map<string, string>();
+    private totalLength = 0;
+
+    // Brings the index in line with the sessions, touching only what changed
+    update(sessions: ChatSession[]) {
+        const seen = new Set<string>();
+        this.titles = new Map(sessions.map(s => [s.id, s.title]));
+
+        sessions.forEach(session => session.messages.forEach(message => {
+            seen.add(message.id);
+            const existing = this.messages.get(message.id);
+            if (existing?.message === message && existing.sessionId === session.id) return;
+            if (existing) this.remove(message.id);
+            this.add(message, session.id);
+        }));
+
+        Array.from(this.messages.keys()).forEach(id => {
+            if (!seen.has(id)) this.remove(id);
+        });
+    }
+
+    // Every query word has to match; the last one also as a prefix, so results follow the typing.
+    // With no words, filters alone list matching messages newest first.
+    search(query: string, filters: SearchFilters = {}): SearchResult[] {
+        const queryTerms = Array.from(new Set(tokenize(query)));
+        if (queryTerms.length === 0) {
+            if (!hasFilters(filters)) return [];
+            return Array.from(this.messages.values())
+                .filter(entry => matchesFilters(entry.message, filters))
+                .sort((a, b) => b.message.timestamp - a.message.timestamp)
+                .slice(0, MAX_RESULTS)
+                .map(entry => this.toResult(entry, [], 0));
+        }
+
+        const count = this.messages.size;
+        const averageLength = this.totalLength / Math.max(1, count);
+        const scores = new Map<string, number>();
+
+        queryTerms.forEach((term, i) => {
+            const isLast = i === queryTerms.length - 1;
+            const termScores = new Map<string, number>();
+            this.postings.forEach((ids, indexed) => {
+                const exact = indexed === term;
+                if (!exact && !(isLast && indexed.startsWith(term))) return;
+                const idf = Math.log(1 + (count - ids.size + 0.5) / (ids.size + 0.5));
+                ids.forEach(id => {
+                    const entry = this.messages.get(id)!;
+                    const tf = entry.terms.get(indexed)!;
+                    const score = idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * entry.length / averageLength)) * (exact ? 1 : PREFIX_WEIGHT);
+                    termScores.set(id, Math.max(termScores.get(id) || 0, score));
+                });
+            });
+
+            if (i === 0) {
+                termScores.forEach((score, id) => scores.set(id, score));
+            } else {
+                Array.from(scores.keys()).forEach(id => {
+                    const score = termScores.get(id);
+                    if (score === undefined) scores.delete(id);
+                    else scores.set(id, scores.get(id)! + score);
+                });
+            }
+        });
+
+        return Array.from(scores, ([id, score]) => ({ entry: this.messages.get(id)!, score }))
+            .filter(({ entry }) => matchesFilters(entry.message, filters))
+            .sort((a, b) => b.score - a.score || b.entry.message.timestamp - a.entry.message.timestamp)
+            .slice(0, MAX_RESULTS)
+            .map(({ entry, score }) => this.toResult(entry, queryTerms, score));
+    }
+
+    private add(message: Message, sessionId: string) {
+        const fields = fieldsOf(message);
+        const terms = new Map<string, number>();
+        let length = 0;
+        fields.forEach(({ field, text }) => tokenize(text).forEach(term => {
+            terms.set(term, (terms.get(term) || 0) + FIELD_WEIGHTS[field]);
+            length++;
+        }));
+
+        this.messages.set(message.id, { message, sessionId, fields, terms, length });
+        this.totalLength += length;
+        terms.forEach((_, term) => {
+            const ids = this.postings.get(term) || new Set<string>();
+            ids.add(message.id);
+            this.postings.set(term, ids);
+        });
+    }
+
+    private remove(id: string) {
+        const entry = this.messages.get(id);
+        if (!entry) return;
+        entry.terms.forEach((_, term) => {
+            const ids = this.postings.get(term);
+            ids?.delete(id);
+            if (ids?.size === 0) this.postings.delete(term);
+        });
+        this.totalLength -= entry.length;
+        this.messages.delete(id);
+    }
+
+    // The snippet comes from the field with the most hits, content winning ties
+    private toResult(entry: IndexedMessage, queryTerms: string[], score: number): SearchResult {
+        const hitsIn = (text: string) => tokenize(text).filter(word => queryTerms.some(term => word.startsWith(term))).length;
+        const best = entry.fields.reduce<{ field: IndexedField; hits: number } | null>((top, field) => {
+            const hits = hitsIn(field.text);
+            return !top || hits > top.hits ? { field, hits } : top;
+        }, null);
+        const field = best?.field || { field: 'content' as SearchField, text: '' };
+
+        return {
+            sessionId: entry.sessionId,
+            sessionTitle: this.titles.get(entry.sessionId) || '',
+            message: entry.message,
+            field: field.field,
+            snippet: buildSnippet(field.text, queryTerms),
+            score
+        };
+    }
+}
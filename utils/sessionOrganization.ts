@@ -0,0 +1,64 @@
+import { ChatSession } from '../types';
+
+// Sidebar grouping, archive and trash. Folders exist only as names on their chats,
+// so a folder disappears once the last chat leaves it.
+
+export type SessionOrganization = Partial<Pick<ChatSession, 'pinned' | 'folder' | 'tags' | 'archived'>>;
+
+export const TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const PINNED_GROUP = 'pinned';
+export const UNFILED_GROUP = 'unfiled';
+
+export interface SessionGroup {
+    key: string;
+    label: string;
+    sessions: ChatSession[];
+    // What dropping a chat on the group changes
+    drop: SessionOrganization;
+}
+
+// In the main sidebar list
+export const isListed = (session: ChatSession): boolean => !session.deletedAt && !session.archived;
+
+export const trashDaysLeft = (session: ChatSession, now = Date.now()): number => {
+    return Math.max(0, Math.ceil(((session.deletedAt || now) + TRASH_RETENTION_DAYS * DAY_MS - now) / DAY_MS));
+};
+
+export const purgeExpiredTrash = (sessions: ChatSession[], now = Date.now()): ChatSession[] => {
+    return sessions.filter(s => !s.deletedAt || trashDaysLeft(s, now) > 0);
+};
+
+export const folderNames = (sessions: ChatSession[]): string[] => {
+    const names = new Set(sessions.filter(s => !s.deletedAt && s.folder).map(s => s.folder!));
+    return Array.from(names).sort((a, b) => a.localeCompare(b));
+};
+
+// Pinned first, then folders by name, then everything else; list order is kept inside a group.
+// The pinned group is there even when empty while `includeEmptyPinned`, as a drop target.
+export const groupSessions = (sessions: ChatSession[], includeEmptyPinned = false): SessionGroup[] => {
+    const listed = sessions.filter(isListed);
+    const groups: SessionGroup[] = [];
+
+    const pinned = listed.filter(s => s.pinned);
+    if (pinned.length > 0 || includeEmptyPinned) {
+        groups.push({ key: PINNED_GROUP, label: 'Pinned', sessions: pinned, drop: { pinned: true } });
+    }
+    folderNames(listed).forEach(folder => {
+        const inFolder = listed.filter(s => !s.pinned && s.folder === folder);
+        if (inFolder.length > 0) groups.push({ key: `folder:${folder}`, label: folder, sessions: inFolder, drop: { pinned: false, folder } });
+    });
+    groups.push({
+        key: UNFILED_GROUP,
+        label: 'Recent Activity',
+        sessions: listed.filter(s => !s.pinned && !s.folder),
+        drop: { pinned: false, folder: undefined }
+    });
+    return groups;
+};
+
+// Comma-separated input to a tag list, without blanks or repeats
+export const parseTags = (text: string): string[] => {
+    return Array.from(new Set(text.split(',').map(t => t.trim().replace(/^#/, '').toLowerCase()).filter(Boolean)));
+};
@@ -0,0 +1,28 @@
+import { AppMode, ChatSession, FastModeStyle, ImageStyle, LiveVoice, MessageRole, SessionSettings, ThinkingBudget } from '../types';
+
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+    mode: AppMode.FAST,
+    fastModeStyle: FastModeStyle.STANDARD,
+    thinkingBudget: ThinkingBudget.AUTO,
+    imageStyle: ImageStyle.DEFAULT,
+    voice: LiveVoice.Puck
+};
+
+// Sessions saved before settings existed pick up the mode they were last used in;
+// a persona chosen per chat used to live on the session itself
+export const normalizeSessionSettings = (session: ChatSession): ChatSession => {
+    if (session.settings) {
+        return { ...session, settings: { ...DEFAULT_SESSION_SETTINGS, ...session.settings } };
+    }
+
+    const { personaId, ...rest } = session as ChatSession & { personaId?: string };
+    const lastUserMessage = [...session.messages].reverse().find(m => m.role === MessageRole.USER && m.modeUsed);
+    return {
+        ...rest,
+        settings: {
+            ...DEFAULT_SESSION_SETTINGS,
+            mode: lastUserMessage?.modeUsed || DEFAULT_SESSION_SETTINGS.mode,
+            personaId
+        }
+    };
+};
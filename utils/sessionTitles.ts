@@ -0,0 +1,15 @@
+import { ChatSession } from '../types';
+
+// Messages on the active branch between checks for topic drift
+const RETITLE_INTERVAL = 8;
+
+// Shown right away, until the model has named the chat
+export const placeholderTitle = (text: string): string => {
+    return text.slice(0, 30) + (text.length > 30 ? '...' : '');
+};
+
+// First exchange names the chat, later ones re-check it every few turns; renamed chats are left alone
+export const needsTitle = (session: ChatSession, pathLength: number): boolean => {
+    if (session.titleLocked) return false;
+    return session.titledAt === undefined || pathLength - session.titledAt >= RETITLE_INTERVAL;
+};
@@ -0,0 +1,173 @@
+import { AppMode, ImageStyle, Persona, PromptTemplate } from '../types';
+
+// Commands typed as `/name args` in the input bar. Parsing and completion live here,
+// App carries out the resulting action.
+
+export interface SlashCommand {
+    name: string;
+    usage?: string; // Argument hint, shown next to the name
+    description: string;
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+    { name: 'image', usage: '[style] <prompt>', description: 'Generate an image, or edit the attached one' },
+    { name: 'video', usage: '<prompt>', description: 'Generate a short video' },
+    { name: 'summarize', usage: '[text]', description: 'Summarize the text, or this conversation' },
+    { name: 'translate', usage: '<language> [text]', description: 'Translate the text, or the last reply' },
+    { name: 'mode', usage: '<mode>', description: "Switch this chat's mode" },
+    { name: 'persona', usage: '[name]', description: 'Switch persona, or manage them' },
+    { name: 'templates', description: 'Create and edit your prompt templates' }
+];
+
+const MODES: { name: string; mode: AppMode }[] = [
+    { name: 'fast', mode: AppMode.FAST },
+    { name: 'smart', mode: AppMode.SMART },
+    { name: 'creative', mode: AppMode.CREATIVE },
+    { name: 'research', mode: AppMode.RESEARCH },
+    { name: 'video', mode: AppMode.VIDEO },
+    { name: 'voice', mode: AppMode.VOICE }
+];
+
+// Offered for completion; any other language name works too
+const LANGUAGES = ['English', 'Hindi', 'Hinglish', 'Bengali', 'Tamil', 'Urdu', 'Spanish', 'French', 'German', 'Portuguese', 'Italian', 'Russian', 'Arabic', 'Chinese', 'Japanese', 'Korean'];
+
+// Media job a command asks for; it skips the intent router and its confirmation
+export interface MediaRequest {
+    intent: 'image' | 'video';
+    imageStyle?: ImageStyle; // Falls back to the chat's style
+}
+
+export type SlashAction =
+    | { type: 'send'; text: string; media?: MediaRequest }
+    | { type: 'mode'; mode: AppMode }
+    | { type: 'persona'; personaId: string }
+    | { type: 'open-personas' }
+    | { type: 'open-templates' }
+    | { type: 'error'; message: string };
+
+export interface CommandSuggestion {
+    key: string;
+    label: string;
+    hint?: string;
+    description?: string;
+    completion: string; // Input text once the suggestion is accepted
+    isTemplate?: boolean;
+}
+
+// `args` is undefined while the command name is still being typed
+const parse = (input: string): { name: string; args?: string } | null => {
+    const match = /^\/([\w-]*)(?:\s+([\s\S]*))?$/.exec(input);
+    if (!match) return null;
+    return { name: match[1].toLowerCase(), args: match[2] };
+};
+
+const argOptions = (name: string, personas: Persona[]): string[] => {
+    switch (name) {
+        case 'image': return Object.values(ImageStyle).filter(s => s !== ImageStyle.DEFAULT);
+        case 'mode': return MODES.map(m => m.name);
+        case 'translate': return LANGUAGES;
+        case 'persona': return personas.map(p => p.name);
+        default: return [];
+    }
+};
+
+const preview = (text: string) => text.replace(/\s+/g, ' ').trim().slice(0, 60);
+
+export const commandSuggestions = (input: string, templates: PromptTemplate[], personas: Persona[]): CommandSuggestion[] => {
+    const parsed = parse(input);
+    if (!parsed) return [];
+
+    if (parsed.args === undefined) {
+        const commands = SLASH_COMMANDS
+            .filter(c => c.name.startsWith(parsed.name))
+            .map(c => ({
+                key: c.name,
+                label: `/${c.name}`,
+                hint: c.usage,
+                description: c.description,
+                completion: c.usage ? `/${c.name} ` : `/${c.name}`
+            }));
+        const own = templates
+            .filter(t => t.name.startsWith(parsed.name))
+            .map(t => ({
+                key: `template-${t.id}`,
+                label: `/${t.name}`,
+                description: t.description || preview(t.body),
+                completion: t.body,
+                isTemplate: true
+            }));
+        return [...commands, ...own];
+    }
+
+    // Only while the argument is a prefix of an option; after that it's free text
+    const query = parsed.args.toLowerCase();
+    return argOptions(parsed.name, personas)
+        .filter(o => o.toLowerCase().startsWith(query) && o.toLowerCase() !== query)
+        .map(o => ({ key: o, label: o, completion: `/${parsed.name} ${o}${parsed.name === 'image' || parsed.name === 'translate' ? ' ' : ''}` }));
+};
+
+// Null when the input isn't a known command and should be sent as typed
+export const resolveSlashCommand = (input: string, personas: Persona[]): SlashAction | null => {
+    const parsed = parse(input.trim());
+    if (!parsed) return null;
+    const args = (parsed.args || '').trim();
+    const lower = args.toLowerCase();
+
+    switch (parsed.name) {
+        case 'image': {
+            const style = Object.values(ImageStyle).find(s => lower === s.toLowerCase() || lower.startsWith(`${s.toLowerCase()} `));
+            const prompt = style ? args.slice(style.length).trim() : args;
+            if (!prompt) return { type: 'error', message: 'Describe the image after /image, e.g. "/image Anime a fox in the rain".' };
+            return { type: 'send', text: prompt, media: { intent: 'image', imageStyle: style } };
+        }
+        case 'video':
+            if (!args) return { type: 'error', message: 'Describe the video after /video.' };
+            return { type: 'send', text: args, media: { intent: 'video' } };
+        case 'summarize':
+            return {
+                type: 'send',
+                text: args ? `Summarize the following text:\n\n${args}` : 'Summarize our conversation so far in a few bullet points.'
+            };
+        case 'translate': {
+            const match = /^(\S+)\s*([\s\S]*)$/.exec(args);
+            if (!match) return { type: 'error', message: 'Name a language, e.g. "/translate Hindi good morning".' };
+            const language = match[1].charAt(0).toUpperCase() + match[1].slice(1);
+            return {
+                type: 'send',
+                text: match[2]
+                    ? `Translate the following into ${language}. Reply with the translation only.\n\n${match[2]}`
+                    : `Translate your last reply into ${language}.`
+            };
+        }
+        case 'mode': {
+            const mode = MODES.find(m => m.name === lower);
+            if (!mode) return { type: 'error', message: `Pick a mode: ${MODES.map(m => m.name).join(', ')}.` };
+            return { type: 'mode', mode: mode.mode };
+        }
+        case 'persona': {
+            if (!args) return { type: 'open-personas' };
+            const persona = personas.find(p => p.name.toLowerCase() === lower);
+            if (!persona) return { type: 'error', message: `No persona named "${args}".` };
+            return { type: 'persona', personaId: persona.id };
+        }
+        case 'templates':
+            return { type: 'open-templates' };
+        default:
+            return null;
+    }
+};
+
+const PLACEHOLDER = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+// Unfilled `{{variables}}` in order, as ranges to select in the textarea
+export const findPlaceholders = (text: string): { name: string; start: number; end: number }[] => {
+    return Array.from(text.matchAll(PLACEHOLDER)).map(m => ({ name: m[1], start: m.index!, end: m.index! + m[0].length }));
+};
+
+// Why a template can't use this name, or null when it can
+export const templateNameError = (name: string, templates: PromptTemplate[], id: string): string | null => {
+    if (!/^[a-z0-9][a-z0-9-]*$/.test(name)) return 'Use lowercase letters, digits and dashes.';
+    if (SLASH_COMMANDS.some(c => c.name === name)) return `/${name} is a built-in command.`;
+    if (templates.some(t => t.name === name && t.id !== id)) return `Another template is already called /${name}.`;
+    return null;
+};
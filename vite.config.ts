@@ -1,7 +1,38 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Pyodide loads its WASM build, standard library and lock file by name from one directory,
+// so the files from the npm package are served under /pyodide/ untouched by the bundler
+const PYODIDE_DIR = path.resolve(__dirname, 'node_modules/pyodide');
+const PYODIDE_FILES: Record<string, string> = {
+    'pyodide.mjs': 'text/javascript',
+    'pyodide.asm.js': 'text/javascript',
+    'pyodide.asm.wasm': 'application/wasm',
+    'python_stdlib.zip': 'application/zip',
+    'pyodide-lock.json': 'application/json'
+};
+
+const pyodideRuntime = (): Plugin => ({
+    name: 'lynq-pyodide-runtime',
+    configureServer(server) {
+        server.middlewares.use('/pyodide/', (req, res, next) => {
+            const name = (req.url || '').split('?')[0].replace(/^\//, '');
+            if (!PYODIDE_FILES[name]) return next();
+            res.setHeader('Content-Type', PYODIDE_FILES[name]);
+            fs.createReadStream(path.join(PYODIDE_DIR, name)).pipe(res);
+        });
+    },
+    generateBundle() {
+        Object.keys(PYODIDE_FILES).forEach(name => this.emitFile({
+            type: 'asset',
+            fileName: `pyodide/${name}`,
+            source: fs.readFileSync(path.join(PYODIDE_DIR, name))
+        }));
+    }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +40,15 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), pyodideRuntime()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL || ''),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY || ''),
+        'process.env.LYNQ_PROVIDER': JSON.stringify(env.LYNQ_PROVIDER || ''),
+        'process.env.LYNQ_RECORD': JSON.stringify(env.LYNQ_RECORD || ''),
+        'process.env.LYNQ_FIXTURES_URL': JSON.stringify(env.LYNQ_FIXTURES_URL || '')
       },
       resolve: {
         alias: {